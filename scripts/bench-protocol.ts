@@ -0,0 +1,149 @@
+// Compares the bandwidth of the JSON and binary game-state encodings.
+//
+// Simulates rooms of different sizes with bots that wander and shoot, builds
+// the per-tick world snapshots exactly as the server does (delta-compressed
+// against a base a few ticks old, as with a ~100ms acknowledgement delay) and
+// reports the average bytes per second each player receives and sends.
+// Socket.IO/WebSocket framing is the same for both encodings and not counted.
+//
+// Run with: npm run bench:protocol
+
+import { Player, PlayerInput, Projectile } from '../src/types/game';
+import {
+  TICK_DT,
+  TICK_INTERVAL,
+  TICK_RATE,
+  calculateGunPosition,
+  createShot
+} from '../src/game/engine';
+import { WEAPONS, WEAPON_IDS } from '../src/game/weapons';
+import { step } from '../src/game/simulation';
+import { completeReload, consumeRound, createAmmo, isReloading } from '../src/game/ammo';
+import { DEFAULT_MAP_ID, getMap } from '../src/game/maps';
+import { WorldState, createWorldSnapshot, createWorldState } from '../src/game/snapshot';
+import { createEntityIdTable, encodePlayerInput, encodeWorldSnapshot } from '../src/game/protocol';
+
+const PLAYER_COUNTS = [2, 4, 8, 16];
+const DURATION_SECONDS = 60;
+const ACK_DELAY_TICKS = 3;
+const ROOM_ID = '3b241101-e2bb-4255-8caf-4136c566a962';
+
+// Small deterministic PRNG so runs are comparable
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const map = getMap(DEFAULT_MAP_ID)!;
+
+const runRoom = (playerCount: number) => {
+  const random = createRandom(playerCount);
+  let players: Player[] = Array.from({ length: playerCount }, (_, i) => ({
+    id: `socket-${i}-${Math.floor(random() * 1e9).toString(36)}`,
+    username: `player${i}`,
+    position: { x: 50 + random() * (map.width - 100), y: 50 + random() * (map.height - 100) },
+    rotation: 0,
+    health: 100,
+    isCreator: i === 0,
+    weapon: WEAPON_IDS[i % WEAPON_IDS.length],
+    ammo: createAmmo(),
+    reload: null,
+    armor: 0,
+    powerUps: {},
+    kills: 0,
+    deaths: 0,
+    team: null
+  }));
+  let projectiles: Projectile[] = [];
+  const lastShot = new Map<string, number>();
+  const intents = new Map<string, PlayerInput>();
+
+  const ids = createEntityIdTable();
+  const history: WorldState[] = [];
+  let jsonBytes = 0;
+  let binaryBytes = 0;
+  let jsonInputBytes = 0;
+  let binaryInputBytes = 0;
+
+  const ticks = DURATION_SECONDS * TICK_RATE;
+  for (let tick = 1; tick <= ticks; tick++) {
+    const inputs: Record<string, PlayerInput> = {};
+    for (const [index, player] of players.entries()) {
+      // Change direction every second or so, aim drifts continuously
+      let intent = intents.get(player.id);
+      if (!intent || random() < 1 / TICK_RATE) {
+        intent = {
+          seq: 0,
+          up: random() < 0.4,
+          down: random() < 0.4,
+          left: random() < 0.4,
+          right: random() < 0.4,
+          rotation: random() * Math.PI * 2
+        };
+        intents.set(player.id, intent);
+      }
+      intent.rotation += (random() - 0.5) * 0.2;
+      inputs[player.id] = { ...intent, seq: tick };
+
+      jsonInputBytes += Buffer.byteLength(JSON.stringify({ roomId: ROOM_ID, input: inputs[player.id] }));
+      binaryInputBytes += encodePlayerInput(inputs[player.id]).byteLength;
+
+      // Hold the trigger about a third of the time
+      const now = tick * TICK_INTERVAL;
+      const canFire = !isReloading(player) && player.ammo[player.weapon].magazine > 0;
+      if (canFire && random() < 0.3 && now - (lastShot.get(player.id) || -Infinity) >= WEAPONS[player.weapon].fireRate) {
+        lastShot.set(player.id, now);
+        players[index] = consumeRound(player, tick);
+        projectiles.push(...createShot(
+          calculateGunPosition(player.position, intent.rotation),
+          intent.rotation,
+          player.id,
+          player.weapon
+        ));
+      }
+    }
+
+    const result = step({ players, projectiles, map }, inputs, TICK_DT);
+    // Keep everyone alive and armed so the room size and fire rate stay constant
+    players = result.state.players.map(p => {
+      const reloaded = completeReload(p, tick);
+      const ammo = reloaded.ammo[reloaded.weapon];
+      return {
+        ...reloaded,
+        health: p.health <= 0 ? 100 : p.health,
+        ammo: ammo.magazine + ammo.reserve === 0 ? createAmmo() : reloaded.ammo
+      };
+    });
+    projectiles = result.state.projectiles;
+
+    const world = createWorldState(tick, players, projectiles);
+    history.push(world);
+    const base = history.length > ACK_DELAY_TICKS ? history[history.length - 1 - ACK_DELAY_TICKS] : null;
+    if (history.length > ACK_DELAY_TICKS + 1) history.shift();
+
+    const snapshot = createWorldSnapshot(base, world, tick);
+    jsonBytes += Buffer.byteLength(JSON.stringify(snapshot));
+    binaryBytes += encodeWorldSnapshot(snapshot, ids).byteLength;
+  }
+
+  return {
+    players: playerCount,
+    jsonDown: Math.round(jsonBytes / DURATION_SECONDS),
+    binaryDown: Math.round(binaryBytes / DURATION_SECONDS),
+    jsonUp: Math.round(jsonInputBytes / playerCount / DURATION_SECONDS),
+    binaryUp: Math.round(binaryInputBytes / playerCount / DURATION_SECONDS)
+  };
+};
+
+console.log(`Bytes per second per player over ${DURATION_SECONDS}s at ${TICK_RATE} ticks/s\n`);
+console.table(PLAYER_COUNTS.map(count => {
+  const result = runRoom(count);
+  return {
+    'players': result.players,
+    'JSON down': result.jsonDown,
+    'binary down': result.binaryDown,
+    'down saving': `${Math.round((1 - result.binaryDown / result.jsonDown) * 100)}%`,
+    'JSON up': result.jsonUp,
+    'binary up': result.binaryUp
+  };
+}));
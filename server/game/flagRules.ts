@@ -0,0 +1,88 @@
+import { Flag, GameMap, Player } from '../../src/types/game';
+import { PLAYER_RADIUS, TICK_INTERVAL, checkCircleCollision, isPlayerAlive } from '../../src/game/engine';
+import { FLAG_RADIUS, FLAG_RETURN_DELAY, getFlagBases, isFlagAtBase } from '../../src/game/flags';
+import { TEAM_IDS, TeamId } from '../../src/game/modes';
+
+export type FlagAction = 'taken' | 'dropped' | 'returned' | 'captured';
+
+export interface FlagEvent {
+  action: FlagAction;
+  // Team that owns the flag
+  team: TeamId;
+  // Null when a dropped flag timed out
+  playerId: string | null;
+}
+
+export interface FlagUpdate {
+  flags: Flag[];
+  events: FlagEvent[];
+}
+
+// One flag per team, standing at its base. Maps without both bases get none.
+export const createFlags = (map: GameMap): Flag[] => {
+  const bases = getFlagBases(map);
+  if (!bases) return [];
+  return TEAM_IDS.map(team => ({ team, position: { ...bases[team] }, carrierId: null, returnTick: null }));
+};
+
+const touches = (player: Player, flag: Flag): boolean =>
+  isPlayerAlive(player) &&
+  checkCircleCollision(player.position, PLAYER_RADIUS, flag.position, FLAG_RADIUS);
+
+// Move the flags for one tick. Carried flags follow their carrier and are
+// dropped where the carrier died or left; reaching your own base with the
+// enemy flag captures it. Enemies pick up flags at their base or on the
+// ground, defenders return dropped flags by touching them, and dropped flags
+// go home by themselves after FLAG_RETURN_DELAY.
+export const updateFlags = (
+  flags: Flag[],
+  players: Map<string, Player>,
+  map: GameMap,
+  tick: number
+): FlagUpdate => {
+  const bases = getFlagBases(map);
+  if (!bases) return { flags, events: [] };
+
+  const events: FlagEvent[] = [];
+  const atBase = (flag: Flag): Flag => ({ ...flag, position: { ...bases[flag.team] }, carrierId: null, returnTick: null });
+
+  const updated = flags.map(flag => {
+    if (flag.carrierId !== null) {
+      const carrier = players.get(flag.carrierId);
+      if (!carrier || !isPlayerAlive(carrier)) {
+        events.push({ action: 'dropped', team: flag.team, playerId: flag.carrierId });
+        return {
+          ...flag,
+          position: carrier ? { ...carrier.position } : flag.position,
+          carrierId: null,
+          returnTick: tick + Math.ceil(FLAG_RETURN_DELAY / TICK_INTERVAL)
+        };
+      }
+      if (carrier.team && checkCircleCollision(carrier.position, PLAYER_RADIUS, bases[carrier.team], FLAG_RADIUS)) {
+        events.push({ action: 'captured', team: flag.team, playerId: carrier.id });
+        return atBase(flag);
+      }
+      return { ...flag, position: { ...carrier.position } };
+    }
+
+    if (flag.returnTick !== null && tick >= flag.returnTick) {
+      events.push({ action: 'returned', team: flag.team, playerId: null });
+      return atBase(flag);
+    }
+
+    for (const player of players.values()) {
+      if (!player.team || !touches(player, flag)) continue;
+      if (player.team !== flag.team) {
+        events.push({ action: 'taken', team: flag.team, playerId: player.id });
+        return { ...flag, position: { ...player.position }, carrierId: player.id, returnTick: null };
+      }
+      if (!isFlagAtBase(flag)) {
+        events.push({ action: 'returned', team: flag.team, playerId: player.id });
+        return atBase(flag);
+      }
+    }
+    return flag;
+  });
+
+  return { flags: updated, events };
+};
@@ -0,0 +1,76 @@
+import { GameMap, HillState, MatchSettings, Player } from '../../src/types/game';
+import { TICK_INTERVAL } from '../../src/game/engine';
+import { HILL_POINT_TICKS, HILL_ROTATION_INTERVAL, getHillKey, isOnHill } from '../../src/game/hill';
+
+export interface HillUpdate {
+  hill: HillState;
+  // Player or team that scored a point this tick
+  scored: string | null;
+  moved: boolean;
+}
+
+const getNextMoveTick = (tick: number): number =>
+  tick + Math.ceil(HILL_ROTATION_INTERVAL / TICK_INTERVAL);
+
+// The hill on the map's first zone, or null when the map has no hill zones.
+// It only rotates when enabled and there is somewhere to rotate to.
+export const createHill = (map: GameMap, settings: MatchSettings, tick: number): HillState | null => {
+  const zones = map.hillZones || [];
+  if (zones.length === 0) return null;
+  return {
+    zone: 0,
+    position: { ...zones[0] },
+    holder: null,
+    contested: false,
+    progress: 0,
+    scores: {},
+    nextMoveTick: settings.rotateHill && zones.length > 1 ? getNextMoveTick(tick) : null
+  };
+};
+
+// Advance the hill one tick. Whoever is alone on it (a player, or a team in
+// team modes) builds progress and scores a point every HILL_POINT_TICKS;
+// a contested or empty hill resets progress, as does moving to the next zone.
+export const updateHill = (hill: HillState, players: Player[], map: GameMap, tick: number): HillUpdate => {
+  const zones = map.hillZones || [];
+  if (hill.nextMoveTick !== null && tick >= hill.nextMoveTick && zones.length > 0) {
+    const zone = (hill.zone + 1) % zones.length;
+    return {
+      hill: {
+        ...hill,
+        zone,
+        position: { ...zones[zone] },
+        holder: null,
+        contested: false,
+        progress: 0,
+        nextMoveTick: getNextMoveTick(tick)
+      },
+      scored: null,
+      moved: true
+    };
+  }
+
+  const keys = new Set(players.filter(p => isOnHill(p, hill)).map(getHillKey));
+  const holder = keys.size === 1 ? [...keys][0] : null;
+  const progress = holder !== null && holder === hill.holder ? hill.progress + 1 : holder !== null ? 1 : 0;
+
+  if (holder !== null && progress >= HILL_POINT_TICKS) {
+    return {
+      hill: {
+        ...hill,
+        holder,
+        contested: false,
+        progress: 0,
+        scores: { ...hill.scores, [holder]: (hill.scores[holder] || 0) + 1 }
+      },
+      scored: holder,
+      moved: false
+    };
+  }
+
+  return {
+    hill: { ...hill, holder, contested: keys.size > 1, progress },
+    scored: null,
+    moved: false
+  };
+};
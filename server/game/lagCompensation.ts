@@ -0,0 +1,69 @@
+import { Player, Vector2D } from '../../src/types/game';
+import { TICK_INTERVAL } from '../../src/game/engine';
+import { INTERPOLATION_DELAY } from '../../src/game/interpolation';
+
+// Maximum time hits may be rewound, in milliseconds. Shooters with more latency
+// than this have to lead their targets, which limits how far a slow (or lying)
+// client can reach into the past.
+export const MAX_REWIND_TIME = Number(process.env.MAX_REWIND_TIME) || 250;
+export const MAX_REWIND_TICKS = Math.round(MAX_REWIND_TIME / TICK_INTERVAL);
+// How far the tick a client reports may differ from what its latency suggests
+const CLAIMED_TICK_TOLERANCE = 3;
+
+export interface PositionSnapshot {
+  tick: number;
+  positions: Map<string, Vector2D>;
+}
+
+// Record where every player was at the end of `tick`, keeping only as much
+// history as can ever be rewound to
+export const recordPositions = (
+  history: PositionSnapshot[],
+  tick: number,
+  players: Player[]
+): void => {
+  history.push({
+    tick,
+    positions: new Map(players.map(p => [p.id, { ...p.position }]))
+  });
+  while (history.length > MAX_REWIND_TICKS + 1) {
+    history.shift();
+  }
+};
+
+// Players as they were at `tick`. Players without recorded history (e.g. who
+// just joined) keep their current position.
+export const getPlayersAtTick = (
+  history: PositionSnapshot[],
+  tick: number,
+  players: Player[]
+): Player[] => {
+  const snapshot = history.find(entry => entry.tick === tick);
+  if (!snapshot) return players;
+
+  return players.map(player => {
+    const position = snapshot.positions.get(player.id);
+    return position ? { ...player, position } : player;
+  });
+};
+
+// Number of ticks to rewind hits for a shot fired at `currentTick`. The client
+// reports the tick it was rendering; it is trusted only when it agrees with the
+// shooter's measured round-trip time, and never beyond MAX_REWIND_TICKS.
+export const resolveRewindTicks = (
+  currentTick: number,
+  claimedTick: number | undefined,
+  roundTripTime: number
+): number => {
+  const estimatedRewind = Math.round((roundTripTime / 2 + INTERPOLATION_DELAY) / TICK_INTERVAL);
+  let rewind = estimatedRewind;
+
+  if (typeof claimedTick === 'number' && Number.isFinite(claimedTick)) {
+    const claimedRewind = currentTick - Math.floor(claimedTick);
+    if (claimedRewind >= 0 && Math.abs(claimedRewind - estimatedRewind) <= CLAIMED_TICK_TOLERANCE) {
+      rewind = claimedRewind;
+    }
+  }
+
+  return Math.max(0, Math.min(MAX_REWIND_TICKS, rewind));
+};
@@ -0,0 +1,188 @@
+import { HillState, MatchSettings, Player, RoundState, Vector2D } from '../../src/types/game';
+import { MatchEndReason } from '../../src/types/events';
+import { MAX_HEALTH, TICK_INTERVAL, TICK_RATE, isPlayerAlive } from '../../src/game/engine';
+import { createAmmo } from '../../src/game/ammo';
+import { DEFAULT_WEAPON } from '../../src/game/weapons';
+import { MIN_PLAYERS } from './roomLifecycle';
+import {
+  GAME_MODES,
+  Objective,
+  RESPAWN_DELAY,
+  ROUND_INTERMISSION,
+  START_COUNTDOWN,
+  TEAM_IDS,
+  TeamId,
+  TeamScores,
+  areTeammates,
+  countTeam,
+  getRoundsToWin,
+  isRoundMatch
+} from '../../src/game/modes';
+
+export interface MatchResult {
+  reason: MatchEndReason;
+  // Both null for a draw; team modes name a team instead of a player
+  winner: Player | null;
+  winningTeam: TeamId | null;
+}
+
+// Why a match ended when someone reached the limit
+const LIMIT_REASONS: Record<Objective, MatchEndReason> = {
+  kills: 'frag_limit',
+  flags: 'capture_limit',
+  hill: 'score_limit'
+};
+
+// A player's score toward the limit outside team modes: kills, or points
+// earned on the hill
+const getPlayerScore = (settings: MatchSettings, player: Player, hill: HillState | null): number =>
+  GAME_MODES[settings.mode].objective === 'hill' ? hill?.scores[player.id] || 0 : player.kills;
+
+// Tick the match runs out of time on, or null without a time limit. Each
+// round of a best-of match gets the full time limit; a single round of a
+// round-based mode has none.
+export const getMatchEndTick = (settings: MatchSettings, startTick: number): number | null =>
+  (GAME_MODES[settings.mode].usesLimits || isRoundMatch(settings)) && settings.timeLimit > 0
+    ? startTick + settings.timeLimit * TICK_RATE
+    : null;
+
+export const getRespawnTick = (tick: number): number =>
+  tick + Math.ceil(RESPAWN_DELAY / TICK_INTERVAL);
+
+export const getNextRoundTick = (tick: number): number =>
+  tick + Math.ceil(ROUND_INTERMISSION / TICK_INTERVAL);
+
+export const getMatchStartTick = (tick: number): number =>
+  tick + Math.ceil(START_COUNTDOWN / TICK_INTERVAL);
+
+// Count a death for the victim and a kill for whoever fired the shot, if
+// anyone did. Returns the credited killer; killing a teammate earns nothing.
+export const recordKill = (players: Map<string, Player>, victimId: string, killerId: string | null): Player | null => {
+  const victim = players.get(victimId);
+  if (victim) players.set(victimId, { ...victim, deaths: victim.deaths + 1 });
+
+  const killer = killerId ? players.get(killerId) : undefined;
+  if (!killer || killerId === victimId || (victim && areTeammates(killer, victim))) return null;
+  const credited = { ...killer, kills: killer.kills + 1 };
+  players.set(killer.id, credited);
+  return credited;
+};
+
+// Even out the teams before a match by moving the most recent arrivals off
+// the bigger team. `players` is in join order; returns the moved players.
+export const balanceTeams = (players: Player[]): Player[] => {
+  const teams = [...players];
+  const moved: Player[] = [];
+  for (;;) {
+    const [small, large] = [...TEAM_IDS].sort((a, b) => countTeam(teams, a) - countTeam(teams, b));
+    if (countTeam(teams, large) - countTeam(teams, small) <= 1) return moved;
+
+    const index = teams.map(p => p.team).lastIndexOf(large);
+    teams[index] = { ...teams[index], team: small };
+    moved.push(teams[index]);
+  }
+};
+
+// Team with the strictly highest score, or null on a tie
+const leadingTeam = (teamScores: TeamScores): TeamId | null => {
+  const [first, second] = [...TEAM_IDS].sort((a, b) => teamScores[b] - teamScores[a]);
+  return teamScores[first] > teamScores[second] ? first : null;
+};
+
+// A fresh life at `position`: full health and ammo, no armor or power-ups.
+// Kills, deaths and the equipped weapon carry over.
+export const respawnPlayer = (player: Player, position: Vector2D): Player => ({
+  ...player,
+  position,
+  health: MAX_HEALTH,
+  armor: 0,
+  ammo: createAmmo(),
+  reload: null,
+  powerUps: {}
+});
+
+// A player back in the lobby for the next match: a fresh life with scores
+// and weapon reset. Teams carry over.
+export const resetPlayer = (player: Player, position: Vector2D): Player => ({
+  ...respawnPlayer(player, position),
+  rotation: 0,
+  weapon: DEFAULT_WEAPON,
+  kills: 0,
+  deaths: 0
+});
+
+// Whether the scores so far end the match. Team modes keep `teamScores`
+// current for every objective.
+export const checkScoreLimit = (
+  settings: MatchSettings,
+  players: Player[],
+  teamScores: TeamScores,
+  hill: HillState | null
+): MatchResult | null => {
+  const mode = GAME_MODES[settings.mode];
+  if (!mode.usesLimits) {
+    const alive = players.filter(isPlayerAlive);
+    // Nobody left, e.g. the last two dying to the zone together, is a draw
+    return alive.length <= 1 ? { reason: 'last_standing', winner: alive[0] || null, winningTeam: null } : null;
+  }
+
+  if (mode.teams) {
+    const team = TEAM_IDS.find(id => teamScores[id] >= settings.fragLimit);
+    return team ? { reason: LIMIT_REASONS[mode.objective], winner: null, winningTeam: team } : null;
+  }
+  const leader = players.find(p => getPlayerScore(settings, p, hill) >= settings.fragLimit);
+  return leader ? { reason: LIMIT_REASONS[mode.objective], winner: leader, winningTeam: null } : null;
+};
+
+// Whether the match has run out of time. The highest player or team score
+// wins; a shared lead is a draw.
+export const checkTimeLimit = (
+  settings: MatchSettings,
+  players: Player[],
+  teamScores: TeamScores,
+  hill: HillState | null,
+  tick: number,
+  endTick: number | null
+): MatchResult | null => {
+  if (endTick === null || tick < endTick) return null;
+
+  if (GAME_MODES[settings.mode].teams) {
+    return { reason: 'time_limit', winner: null, winningTeam: leadingTeam(teamScores) };
+  }
+  const score = (player: Player) => getPlayerScore(settings, player, hill);
+  const [first, second] = [...players].sort((a, b) => score(b) - score(a));
+  const winner = first && (!second || score(first) > score(second)) ? first : null;
+  return { reason: 'time_limit', winner, winningTeam: null };
+};
+
+// Whether players leaving ends the match: whoever is left once nobody can
+// oppose them wins by forfeit, a lone player or the one team with anyone
+// left. `players` is everyone still taking part.
+export const checkForfeit = (settings: MatchSettings, players: Player[]): MatchResult | null => {
+  if (GAME_MODES[settings.mode].teams) {
+    const remaining = TEAM_IDS.filter(team => countTeam(players, team) > 0);
+    if (remaining.length === TEAM_IDS.length) return null;
+    return { reason: 'forfeit', winner: null, winningTeam: remaining.length === 1 ? remaining[0] : null };
+  }
+  return players.length < MIN_PLAYERS ? { reason: 'forfeit', winner: players[0] || null, winningTeam: null } : null;
+};
+
+// Credit a round to its winner; a drawn round counts for nobody
+export const recordRoundWin = (rounds: RoundState, winner: Player | null): RoundState => ({
+  ...rounds,
+  wins: winner ? { ...rounds.wins, [winner.id]: (rounds.wins[winner.id] || 0) + 1 } : rounds.wins
+});
+
+// Whether the rounds so far decide a best-of match: someone has won enough
+// of them, or every round has been played and the most round wins take it,
+// a shared lead being a draw. `players` is everyone who took part.
+export const checkRoundWins = (settings: MatchSettings, rounds: RoundState, players: Player[]): MatchResult | null => {
+  const wins = (player: Player) => rounds.wins[player.id] || 0;
+  const [first, second] = [...players].sort((a, b) => wins(b) - wins(a));
+  if (first && wins(first) >= getRoundsToWin(settings.rounds)) {
+    return { reason: 'rounds_won', winner: first, winningTeam: null };
+  }
+  if (rounds.round < settings.rounds) return null;
+  const winner = first && (!second || wins(first) > wins(second)) ? first : null;
+  return { reason: 'rounds_won', winner, winningTeam: null };
+};
@@ -0,0 +1,97 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameMap, Pickup, PickupType, Player, Vector2D } from '../../src/types/game';
+import { PLAYER_RADIUS, TICK_INTERVAL, checkCircleCollision, isPlayerAlive } from '../../src/game/engine';
+import { circleHitsWalls } from '../../src/game/map';
+import { PICKUPS, PICKUP_RADIUS, PICKUP_TYPES, collectPickup } from '../../src/game/pickups';
+
+// Pickups scattered when the map defines no pickup spots
+const RANDOM_PICKUP_COUNT = 4;
+// Attempts at finding open floor for a random pickup before giving up
+const RANDOM_POSITION_ATTEMPTS = 20;
+
+export interface PickupCollection {
+  pickupId: string;
+  playerId: string;
+  type: PickupType;
+}
+
+export interface PickupUpdate {
+  pickups: Pickup[];
+  players: Player[];
+  collected: PickupCollection[];
+  respawned: number;
+}
+
+const randomPickupType = (): PickupType =>
+  PICKUP_TYPES[Math.floor(Math.random() * PICKUP_TYPES.length)];
+
+// Somewhere clear of walls, falling back to a spawn point on cramped maps
+const randomPickupPosition = (map: GameMap): Vector2D => {
+  for (let attempt = 0; attempt < RANDOM_POSITION_ATTEMPTS; attempt++) {
+    const position = { x: Math.random() * map.width, y: Math.random() * map.height };
+    if (!circleHitsWalls(position, PICKUP_RADIUS * 2, map)) return position;
+  }
+  return { ...map.spawnPoints[Math.floor(Math.random() * map.spawnPoints.length)] };
+};
+
+// Maps with pickup spots keep a pickup on each spot; otherwise pickups appear
+// at random places, moving each time they respawn
+const usesRandomPositions = (map: GameMap): boolean => map.pickupSpots.length === 0;
+
+export const createPickups = (map: GameMap): Pickup[] => {
+  const positions = usesRandomPositions(map)
+    ? Array.from({ length: RANDOM_PICKUP_COUNT }, () => randomPickupPosition(map))
+    : map.pickupSpots.map(spot => ({ ...spot }));
+  return positions.map(position => ({
+    id: uuidv4(),
+    type: randomPickupType(),
+    position,
+    respawnTick: null
+  }));
+};
+
+// Respawn pickups whose timer ran out and hand available ones to the first
+// living player touching them who can use them
+export const updatePickups = (
+  pickups: Pickup[],
+  players: Player[],
+  map: GameMap,
+  tick: number
+): PickupUpdate => {
+  const updatedPlayers = [...players];
+  const collected: PickupCollection[] = [];
+  let respawned = 0;
+
+  const updatedPickups = pickups.map(pickup => {
+    if (pickup.respawnTick !== null) {
+      if (tick < pickup.respawnTick) return pickup;
+      respawned++;
+      return {
+        ...pickup,
+        type: randomPickupType(),
+        position: usesRandomPositions(map) ? randomPickupPosition(map) : pickup.position,
+        respawnTick: null
+      };
+    }
+
+    for (let i = 0; i < updatedPlayers.length; i++) {
+      const player = updatedPlayers[i];
+      if (!isPlayerAlive(player) ||
+          !checkCircleCollision(player.position, PLAYER_RADIUS, pickup.position, PICKUP_RADIUS)) {
+        continue;
+      }
+      const result = collectPickup(player, pickup.type, tick);
+      if (!result) continue;
+
+      updatedPlayers[i] = result;
+      collected.push({ pickupId: pickup.id, playerId: player.id, type: pickup.type });
+      return {
+        ...pickup,
+        respawnTick: tick + Math.ceil(PICKUPS[pickup.type].respawnTime / TICK_INTERVAL)
+      };
+    }
+    return pickup;
+  });
+
+  return { pickups: updatedPickups, players: updatedPlayers, collected, respawned };
+};
@@ -0,0 +1,22 @@
+import { RoomStatus } from '../../src/types/game';
+
+// Where a room may go from each status. A match counts down in the lobby,
+// where the countdown can be called off, plays out, possibly pausing between
+// rounds, and finishes; the room then returns to the lobby for the next match.
+const ROOM_TRANSITIONS: Record<RoomStatus, RoomStatus[]> = {
+  waiting: ['countdown'],
+  countdown: ['playing', 'waiting'],
+  playing: ['roundEnd', 'finished'],
+  roundEnd: ['playing', 'finished'],
+  finished: ['waiting']
+};
+
+export const canTransitionRoom = (from: RoomStatus, to: RoomStatus): boolean =>
+  ROOM_TRANSITIONS[from].includes(to);
+
+// Fewest players a match can start with
+export const MIN_PLAYERS = 2;
+
+// Whether the lobby can count down: enough players, all of them ready
+export const isEveryoneReady = (playerIds: string[], ready: Set<string>): boolean =>
+  playerIds.length >= MIN_PLAYERS && playerIds.every(id => ready.has(id));
@@ -0,0 +1,59 @@
+import { GameMap, Player, Vector2D } from '../../src/types/game';
+import { PROJECTILE_RADIUS, calculateGunPosition, isPlayerAlive, vectorDistance } from '../../src/game/engine';
+import { sweptCircleHitsWalls } from '../../src/game/map';
+import { WeaponId } from '../../src/game/weapons';
+import { isReloading } from '../../src/game/ammo';
+import { getFireInterval } from '../../src/game/pickups';
+
+// Allowance for network jitter between two shots, as a fraction of the
+// weapon's fire interval. Shots sent exactly one interval apart can arrive
+// slightly closer together.
+const FIRE_RATE_TOLERANCE = 0.2;
+// Distance between the muzzle a client reports and the authoritative one
+// beyond which the shot is flagged, in pixels
+export const MUZZLE_MISMATCH_DISTANCE = 60;
+
+export type ShotRejectionReason = 'not_in_room' | 'dead' | 'fire_rate' | 'reloading' | 'no_ammo' | 'blocked';
+
+export type ShotValidation =
+  | { ok: true; weapon: WeaponId; muzzle: Vector2D; muzzleError: number }
+  | { ok: false; reason: ShotRejectionReason };
+
+// Earliest time the next shot may arrive after `shooter` fired `weapon` at
+// `now`. The cooldown belongs to the weapon that fired, so switching can't
+// skip it.
+export const getNextShotTime = (shooter: Player, weapon: WeaponId, now: number): number =>
+  now + getFireInterval(shooter, weapon) * (1 - FIRE_RATE_TOLERANCE);
+
+// Rejections an honest client can cause: its view of the magazine lags the
+// server's by a round trip, so a shot or two may arrive after it ran dry, and
+// standing against a wall puts the muzzle inside it
+export const isExpectedRejection = (reason: ShotRejectionReason): boolean =>
+  reason === 'reloading' || reason === 'no_ammo' || reason === 'blocked';
+
+// Decide whether a shot may be fired and where it spawns. The client's
+// reported position is never trusted; it is only compared against the muzzle
+// derived from the shooter's authoritative position. A muzzle on the far side
+// of a wall would let the shot pass through it, so the gun must be clear.
+export const validateShot = (
+  shooter: Player | undefined,
+  angle: number,
+  claimedPosition: Vector2D,
+  nextShotTime: number | undefined,
+  now: number,
+  map: GameMap
+): ShotValidation => {
+  if (!shooter) return { ok: false, reason: 'not_in_room' };
+  if (!isPlayerAlive(shooter)) return { ok: false, reason: 'dead' };
+  if (nextShotTime !== undefined && now < nextShotTime) {
+    return { ok: false, reason: 'fire_rate' };
+  }
+  if (isReloading(shooter)) return { ok: false, reason: 'reloading' };
+  if (shooter.ammo[shooter.weapon].magazine <= 0) return { ok: false, reason: 'no_ammo' };
+
+  const muzzle = calculateGunPosition(shooter.position, angle);
+  if (sweptCircleHitsWalls(shooter.position, muzzle, PROJECTILE_RADIUS, map)) {
+    return { ok: false, reason: 'blocked' };
+  }
+  return { ok: true, weapon: shooter.weapon, muzzle, muzzleError: vectorDistance(muzzle, claimedPosition) };
+};
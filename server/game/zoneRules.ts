@@ -0,0 +1,74 @@
+import { GameMap, Player, SafeZone } from '../../src/types/game';
+import { TICK_INTERVAL, applyDamage, isPlayerAlive } from '../../src/game/engine';
+import {
+  ZONE_DAMAGE_TICKS,
+  ZONE_PHASES,
+  ZoneCircle,
+  getZoneCircle,
+  getZoneDamage,
+  isOutsideZone
+} from '../../src/game/safeZone';
+
+// Random target circle of `radius` lying entirely inside `circle`
+const chooseTarget = (circle: ZoneCircle, radius: number): ZoneCircle => {
+  const angle = Math.random() * Math.PI * 2;
+  const distance = Math.sqrt(Math.random()) * (circle.radius - radius);
+  return {
+    center: {
+      x: circle.center.x + Math.cos(angle) * distance,
+      y: circle.center.y + Math.sin(angle) * distance
+    },
+    radius
+  };
+};
+
+// Schedule phase `phase` from `circle`, starting its delay at `tick`
+const schedulePhase = (circle: ZoneCircle, phase: number, tick: number): SafeZone => {
+  const next = ZONE_PHASES[phase];
+  if (!next) {
+    return {
+      phase,
+      center: circle.center,
+      radius: circle.radius,
+      targetCenter: circle.center,
+      targetRadius: circle.radius,
+      shrinkStartTick: null,
+      shrinkEndTick: null
+    };
+  }
+
+  const target = chooseTarget(circle, circle.radius * next.scale);
+  const shrinkStartTick = tick + Math.ceil(next.delay / TICK_INTERVAL);
+  return {
+    phase,
+    center: circle.center,
+    radius: circle.radius,
+    targetCenter: target.center,
+    targetRadius: target.radius,
+    shrinkStartTick,
+    shrinkEndTick: shrinkStartTick + Math.ceil(next.duration / TICK_INTERVAL)
+  };
+};
+
+// A zone covering the whole map, about to start its first phase
+export const createSafeZone = (map: GameMap, tick: number): SafeZone =>
+  schedulePhase({
+    center: { x: map.width / 2, y: map.height / 2 },
+    radius: Math.hypot(map.width, map.height) / 2
+  }, 0, tick);
+
+// Move on to the next phase once the current shrink has finished
+export const advanceSafeZone = (zone: SafeZone, tick: number): SafeZone =>
+  zone.shrinkEndTick !== null && tick >= zone.shrinkEndTick
+    ? schedulePhase({ center: zone.targetCenter, radius: zone.targetRadius }, zone.phase + 1, tick)
+    : zone;
+
+// Damage every living player outside the zone, on zone damage ticks only.
+// Returns the players that were hurt.
+export const applyZoneDamage = (zone: SafeZone, players: Player[], tick: number): Player[] => {
+  if (tick % ZONE_DAMAGE_TICKS !== 0) return [];
+  const circle = getZoneCircle(zone, tick);
+  return players
+    .filter(p => isPlayerAlive(p) && isOutsideZone(p.position, circle))
+    .map(p => applyDamage(p, getZoneDamage(zone)));
+};
@@ -1,22 +1,102 @@
 import { Server } from 'socket.io';
 import { createServer } from 'http';
 import { v4 as uuidv4 } from 'uuid';
-import { Player, Vector2D, Projectile, GameState } from '../src/types/game';
 import {
-  createProjectile,
-  updateProjectile,
-  checkProjectileCollision,
-  applyDamage,
-  isPlayerAlive,
-  checkWallCollision,
-  PROJECTILE_RADIUS,
-  MAP_WIDTH,
-  MAP_HEIGHT,
-  PLAYER_RADIUS
-} from './game/engine';
+  Player,
+  Projectile,
+  RoomStatus,
+  RoundState,
+  PlayerInput,
+  GameMap,
+  Pickup,
+  MatchSettings,
+  Flag,
+  HillState,
+  SafeZone,
+  Spectator,
+  Vector2D
+} from '../src/types/game';
+import {
+  ClientEventPayload,
+  ClientToServerEvents,
+  ErrorCode,
+  GameStartedPayload,
+  RoundEndedPayload,
+  ServerToClientEvents,
+  SocketData
+} from '../src/types/events';
+import { validateClientEvent } from '../src/game/validation';
+import { createShot, isPlayerAlive, TICK_INTERVAL, TICK_DT } from '../src/game/engine';
+import { DEFAULT_WEAPON } from '../src/game/weapons';
+import { canReload, completeReload, consumeRound, createAmmo, startReload } from '../src/game/ammo';
+import { expirePowerUps } from '../src/game/pickups';
+import {
+  DEFAULT_MATCH_SETTINGS,
+  GAME_MODES,
+  TEAMS,
+  TeamId,
+  TeamScores,
+  areTeammates,
+  countTeam,
+  createTeamScores,
+  START_COUNTDOWN,
+  isRoundMatch,
+  pickTeam,
+  rankPlayers
+} from '../src/game/modes';
+import { step, SimulationInputs } from '../src/game/simulation';
+import { chooseSpawnPoint } from '../src/game/map';
+import { validateMapLayout } from '../src/game/mapLayout';
+import { getFlagBases } from '../src/game/flags';
+import { DEFAULT_MAP_ID, getMap } from '../src/game/maps';
+import { WorldSnapshot, WorldState, createWorldSnapshot, createWorldState } from '../src/game/snapshot';
+import {
+  DEFAULT_ENCODING,
+  EntityIdTable,
+  ProtocolError,
+  createEntityIdTable,
+  decodePlayerInput,
+  encodeWorldSnapshot,
+  isWireEncoding,
+  releaseEntityId
+} from '../src/game/protocol';
+import {
+  PositionSnapshot,
+  getPlayersAtTick,
+  recordPositions,
+  resolveRewindTicks
+} from './game/lagCompensation';
+import {
+  MUZZLE_MISMATCH_DISTANCE,
+  getNextShotTime,
+  isExpectedRejection,
+  validateShot
+} from './game/shotValidation';
+import { createPickups, updatePickups } from './game/pickupSpawning';
+import { FlagAction, createFlags, updateFlags } from './game/flagRules';
+import { createHill, updateHill } from './game/hillRules';
+import { advanceSafeZone, applyZoneDamage, createSafeZone } from './game/zoneRules';
+import { ZONE_KILLER_NAME } from '../src/game/safeZone';
+import {
+  MatchResult,
+  balanceTeams,
+  checkForfeit,
+  checkRoundWins,
+  checkScoreLimit,
+  checkTimeLimit,
+  getMatchEndTick,
+  getMatchStartTick,
+  getNextRoundTick,
+  getRespawnTick,
+  recordKill,
+  recordRoundWin,
+  resetPlayer,
+  respawnPlayer
+} from './game/matchRules';
+import { MIN_PLAYERS, canTransitionRoom, isEveryoneReady } from './game/roomLifecycle';
 
 const httpServer = createServer();
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
   cors: {
     origin: "http://localhost:3000",
     methods: ["GET", "POST"]
@@ -27,10 +107,58 @@ interface GameRoom {
   id: string;
   players: Map<string, Player>;
   projectiles: Projectile[];
-  status: GameState['status'];
+  status: RoomStatus;
+  map: GameMap;
   creatorId: string;
   lastActivity: number;
-  lastPlayerUpdates: Map<string, number>;
+  pendingInputs: Map<string, PlayerInput[]>;
+  lastProcessedInputs: Map<string, number>;
+  tick: number;
+  positionHistory: PositionSnapshot[];
+  // Ticks each projectile's hits are rewound by, based on its shooter's view
+  projectileRewinds: Map<string, number>;
+  // Recently broadcast world states, used as delta bases
+  snapshotHistory: WorldState[];
+  // Last snapshot tick each client acknowledged; absent means send a keyframe
+  snapshotAcks: Map<string, number>;
+  // Numeric ids for binary encoding, and removed entities whose ids are
+  // released once they drop out of the snapshot history
+  entityIds: EntityIdTable;
+  retiredEntities: { id: string; tick: number }[];
+  // Earliest time each player may fire again, for fire-rate enforcement
+  nextShotTimes: Map<string, number>;
+  pickups: Pickup[];
+  settings: MatchSettings;
+  // Tick the match runs out of time on, when it has a time limit
+  matchEndTick: number | null;
+  // Tick each dead player comes back on, in modes with respawns
+  respawnTicks: Map<string, number>;
+  // Team scores in team modes: kills, flag captures or hill points
+  teamScores: TeamScores;
+  // Empty outside capture the flag
+  flags: Flag[];
+  // Null outside king of the hill
+  hill: HillState | null;
+  // Null outside battle royale
+  zone: SafeZone | null;
+  // Eliminated players and spectating joiners. They get the room's state but
+  // are not players: nothing hits them and they don't count towards the room.
+  spectators: Map<string, Spectator>;
+  // Players knocked out of the current match or round, and late joiners, who
+  // play in the next one
+  eliminated: Map<string, Player>;
+  // Late joiners made to spectate the running match, who play the next one
+  waitingForNextMatch: Map<string, Player>;
+  // Null outside best-of matches
+  rounds: RoundState | null;
+  // Tick the next round starts on, during the break between rounds
+  nextRoundTick: number | null;
+  // The last round's result, during the break between rounds
+  roundResult: RoundEndedPayload | null;
+  // Players who are ready to start, in the lobby
+  ready: Set<string>;
+  // Tick the match starts on, during the countdown
+  startTick: number | null;
 }
 
 const rooms = new Map<string, GameRoom>();
@@ -41,11 +169,16 @@ const ROOM_CLEANUP_INTERVAL = 5 * 60 * 1000;
 const ROOM_EXPIRY_TIME = 2 * 60 * 1000;
 // Room grace period (10 seconds)
 const ROOM_GRACE_PERIOD = 10 * 1000;
-// Minimum time between player updates (50ms = 20 updates per second)
-const MIN_UPDATE_INTERVAL = 50;
+// World states kept as delta bases (1 second at 30 ticks per second)
+const SNAPSHOT_HISTORY_SIZE = 30;
 
-// Game update interval (33ms = ~30fps)
-const GAME_UPDATE_INTERVAL = 33;
+// Interval between latency measurements per client (2 seconds)
+const LATENCY_PING_INTERVAL = 2000;
+// Maximum simulation ticks run per loop pass; beyond this the server drops
+// the backlog instead of spiralling further behind
+const MAX_TICKS_PER_UPDATE = 5;
+// Maximum queued inputs per player; older inputs are dropped beyond this
+const MAX_PENDING_INPUTS = 10;
 
 // Keep track of recently disconnected players
 const recentlyDisconnected = new Map<string, { 
@@ -55,6 +188,9 @@ const recentlyDisconnected = new Map<string, {
   wasCreator: boolean;
 }>();
 
+// Smoothed round-trip time per connected socket, in milliseconds
+const playerLatencies = new Map<string, number>();
+
 // Cleanup inactive rooms periodically
 setInterval(() => {
   const now = Date.now();
@@ -79,125 +215,641 @@ setInterval(() => {
   }
 }, ROOM_CLEANUP_INTERVAL);
 
-// Game update loop
-setInterval(() => {
-  for (const [roomId, room] of rooms.entries()) {
-    if (room.status !== 'playing') continue;
+// Queue an input for the game loop, dropping duplicates and the oldest inputs
+// once a player has too many pending
+const queuePlayerInput = (room: GameRoom, playerId: string, input: PlayerInput) => {
+  if (room.status !== 'playing') return;
 
-    // Update projectiles
-    const updatedProjectiles: Projectile[] = [];
-    room.projectiles = room.projectiles.filter(projectile => {
-      // Update projectile position
-      const updatedProjectile = updateProjectile(projectile);
-      
-      // Check for wall collision
-      if (checkWallCollision(updatedProjectile.position, PROJECTILE_RADIUS)) {
-        console.log('[Server] Projectile hit wall:', {
-          id: projectile.id,
-          position: updatedProjectile.position
-        });
-        io.to(roomId).emit('projectileHit', {
-          projectileId: projectile.id
-        });
-        return false;
-      }
-      
-      // Check for player collision
-      const collision = checkProjectileCollision(
-        updatedProjectile,
-        Array.from(room.players.values())
-      );
-
-      if (collision.hit) {
-        console.log('[Server] Projectile hit player:', {
-          projectileId: projectile.id,
-          playerId: collision.playerId
-        });
-        if (collision.playerId) {
-          const hitPlayer = room.players.get(collision.playerId);
-          const shooter = room.players.get(projectile.playerId);
-          if (hitPlayer) {
-            // Apply damage
-            const damage = 20; // Each hit does 20 damage
-            hitPlayer.health = Math.max(0, hitPlayer.health - damage);
-            
-            // Update the player in the room
-            room.players.set(collision.playerId, hitPlayer);
-
-            // Broadcast the updated player state to all clients
-            io.to(roomId).emit('playerUpdated', {
-              playerId: hitPlayer.id,
-              health: hitPlayer.health
-            });
-
-            // Notify about the projectile hit
-            io.to(roomId).emit('projectileHit', {
-              projectileId: projectile.id,
-              playerId: collision.playerId,
-              damage: damage
-            });
-
-            // Check if player died
-            if (hitPlayer.health <= 0) {
-              console.log('[Server] Player died:', {
-                playerId: hitPlayer.id,
-                killerPlayerId: projectile.playerId
-              });
-              
-              // Notify all clients about player death
-              io.to(roomId).emit('playerDied', { 
-                playerId: hitPlayer.id,
-                killerUsername: shooter ? shooter.username : 'Unknown'
-              });
-              
-              // Remove the dead player from the room
-              room.players.delete(hitPlayer.id);
-              
-              // Check if game is over (only one player left)
-              const remainingPlayers = Array.from(room.players.values());
-              if (remainingPlayers.length === 1) {
-                const winner = remainingPlayers[0];
-                console.log('[Server] Game Over - Winner:', {
-                  winnerUsername: winner.username,
-                  winnerId: winner.id,
-                  roomId
-                });
-                io.to(roomId).emit('gameOver', { 
-                  winnerUsername: winner.username,
-                  winnerId: winner.id
-                });
-                room.status = 'finished';
-              }
-            }
-          }
-        }
-        return false;
+  const player = room.players.get(playerId);
+  if (!player) return;
+
+  const queue = room.pendingInputs.get(playerId) || [];
+  const lastSeq = queue.length > 0
+    ? queue[queue.length - 1].seq
+    : room.lastProcessedInputs.get(playerId) || 0;
+  if (input.seq <= lastSeq) {
+    return; // Duplicate or out-of-order input
+  }
+
+  queue.push(input);
+  if (queue.length > MAX_PENDING_INPUTS) {
+    queue.splice(0, queue.length - MAX_PENDING_INPUTS);
+  }
+  room.pendingInputs.set(playerId, queue);
+  room.lastActivity = Date.now();
+};
+
+// Advance a room's simulation by one fixed tick
+const simulateRoomTick = (roomId: string, room: GameRoom) => {
+  room.tick += 1;
+  respawnPlayers(roomId, room);
+
+  // Take one queued input per player for this step
+  const inputs: SimulationInputs = {};
+  for (const [playerId, queue] of room.pendingInputs.entries()) {
+    const input = queue.shift();
+    if (!input || !room.players.has(playerId)) continue;
+    inputs[playerId] = input;
+    room.lastProcessedInputs.set(playerId, input.seq);
+  }
+
+  // Advance the shared simulation, testing each projectile against the players
+  // as its shooter saw them
+  const { state, hits, expired } = step(
+    {
+      players: Array.from(room.players.values()),
+      projectiles: room.projectiles,
+      map: room.map
+    },
+    inputs,
+    TICK_DT,
+    {
+      getTargets: (projectile, players) => {
+        const rewind = room.projectileRewinds.get(projectile.id) || 0;
+        return getPlayersAtTick(room.positionHistory, room.tick - rewind, players);
+      },
+      canHit: (projectile, player) => {
+        if (room.settings.friendlyFire) return true;
+        const shooter = room.players.get(projectile.playerId);
+        return !shooter || !areTeammates(shooter, player);
       }
+    }
+  );
+  // Reloads finish and power-ups wear off on the tick they were scheduled for
+  room.players = new Map(state.players.map(p => [p.id, expirePowerUps(completeReload(p, room.tick), room.tick)]));
+  room.projectiles = state.projectiles;
+  recordPositions(room.positionHistory, room.tick, state.players);
+  for (const projectileId of [...hits.map(hit => hit.projectileId), ...expired]) {
+    room.projectileRewinds.delete(projectileId);
+    room.retiredEntities.push({ id: projectileId, tick: room.tick });
+  }
+
+  // Resolve projectile hits. Damage and removals reach clients through the
+  // world snapshot; only discrete game events are sent separately.
+  let killed = false;
+  let teamScored = false;
+  for (const hit of hits) {
+    if (!hit.playerId) {
+      console.log('[Server] Projectile hit wall:', {
+        id: hit.projectileId
+      });
+      continue;
+    }
 
-      // Update the projectile in the array and keep it
-      Object.assign(projectile, updatedProjectile);
-      updatedProjectiles.push(projectile);
-      return true;
+    console.log('[Server] Projectile hit player:', {
+      projectileId: hit.projectileId,
+      playerId: hit.playerId
     });
+    const hitPlayer = room.players.get(hit.playerId);
+    const shooter = room.players.get(hit.shooterId);
+    if (!hitPlayer) continue;
 
-    // Broadcast updated projectiles to all clients in the room
-    if (updatedProjectiles.length > 0) {
-      console.log('[Server] Broadcasting projectile updates:', {
-        roomId,
-        count: updatedProjectiles.length,
-        positions: updatedProjectiles.map(p => ({ 
-          id: p.id,
-          x: Math.round(p.position.x), 
-          y: Math.round(p.position.y)
-        }))
-      });
-      io.to(roomId).emit('projectilesUpdate', updatedProjectiles);
+    // Check if player died. A player already waiting to respawn can't die again.
+    if (hitPlayer.health <= 0 && !room.respawnTicks.has(hitPlayer.id)) {
+      teamScored = killPlayer(roomId, room, hitPlayer.id, hit.shooterId, shooter ? shooter.username : 'Unknown') ||
+        teamScored;
+      killed = true;
+    }
+  }
+
+  // The safe zone hurts everyone outside it, killing like a projectile would
+  if (room.zone && updateRoomZone(roomId, room)) {
+    killed = true;
+  }
+
+  // Objectives are updated after this tick's deaths: flags follow their
+  // carriers, and the dead don't hold the hill
+  const objective = GAME_MODES[room.settings.mode].objective;
+  const captured = objective === 'flags' && updateRoomFlags(roomId, room);
+  const hillScored = objective === 'hill' && updateRoomHill(roomId, room);
+
+  const players = Array.from(room.players.values());
+  if (teamScored || captured || (hillScored && GAME_MODES[room.settings.mode].teams)) {
+    io.to(roomId).emit('teamScoresUpdated', room.teamScores);
+  }
+  const result = (killed || captured || hillScored
+    ? checkScoreLimit(room.settings, players, room.teamScores, room.hill)
+    : null) ||
+    checkTimeLimit(room.settings, players, room.teamScores, room.hill, room.tick, room.matchEndTick);
+  if (result) {
+    if (room.rounds) {
+      endRound(roomId, room, result);
+    } else {
+      endMatch(roomId, room, result);
+    }
+    return;
+  }
+
+  updateRoomPickups(roomId, room);
+};
+
+// Count a death and tell clients. Dead players wait to respawn in modes that
+// allow it, and are removed from the room otherwise. `killerId` is null when
+// no player caused the death. Returns whether the killer's team scored.
+const killPlayer = (
+  roomId: string,
+  room: GameRoom,
+  playerId: string,
+  killerId: string | null,
+  killerUsername: string
+): boolean => {
+  console.log('[Server] Player died:', {
+    playerId,
+    killerPlayerId: killerId
+  });
+  const killer = recordKill(room.players, playerId, killerId);
+  const scoringTeam = GAME_MODES[room.settings.mode].objective === 'kills' ? killer?.team : null;
+  if (scoringTeam) {
+    room.teamScores[scoringTeam] += 1;
+  }
+
+  // Without respawns the player is out, and watches the rest of the match
+  const respawnTick = GAME_MODES[room.settings.mode].respawns ? getRespawnTick(room.tick) : undefined;
+  const victim = room.players.get(playerId);
+  if (respawnTick === undefined) {
+    room.players.delete(playerId);
+    if (victim) {
+      room.spectators.set(playerId, { id: playerId, username: victim.username });
+      room.eliminated.set(playerId, victim);
+    }
+  } else {
+    room.respawnTicks.set(playerId, respawnTick);
+  }
+
+  // Notify all clients about player death
+  io.to(roomId).emit('playerDied', { playerId, killerUsername, respawnTick });
+  if (respawnTick === undefined) broadcastSpectators(roomId, room);
+  return !!scoringTeam;
+};
+
+// Move the safe zone on to its next phase when a shrink ends, and deal zone
+// damage. The zone and the damage reach clients through the world snapshot.
+// Returns whether anyone died.
+const updateRoomZone = (roomId: string, room: GameRoom): boolean => {
+  const zone = advanceSafeZone(room.zone!, room.tick);
+  if (zone !== room.zone) {
+    console.log('[Server] Safe zone phase:', { roomId, phase: zone.phase, radius: Math.round(zone.targetRadius) });
+  }
+  room.zone = zone;
+
+  let killed = false;
+  for (const player of applyZoneDamage(zone, Array.from(room.players.values()), room.tick)) {
+    room.players.set(player.id, player);
+    if (player.health <= 0 && !room.respawnTicks.has(player.id)) {
+      killPlayer(roomId, room, player.id, null, ZONE_KILLER_NAME);
+      killed = true;
+    }
+  }
+  return killed;
+};
+
+// Bring back dead players whose respawn delay is over, at the spawn point
+// farthest from every living opponent
+const respawnPlayers = (roomId: string, room: GameRoom) => {
+  for (const [playerId, respawnTick] of room.respawnTicks.entries()) {
+    if (room.tick < respawnTick) continue;
+    room.respawnTicks.delete(playerId);
+
+    const player = room.players.get(playerId);
+    if (!player) continue;
+
+    const occupied = Array.from(room.players.values())
+      .filter(p => p.id !== playerId && isPlayerAlive(p) && !areTeammates(p, player))
+      .map(p => p.position);
+    const position = chooseSpawnPoint(room.map, occupied);
+    room.players.set(playerId, respawnPlayer(player, position));
+    room.pendingInputs.delete(playerId);
+
+    console.log('[Server] Player respawned:', { roomId, playerId, position });
+    io.to(roomId).emit('playerRespawned', { playerId, position });
+  }
+};
+
+// Move the room on to `status` if its lifecycle allows it, telling every
+// client so they show the right screen. Returns whether the room moved.
+const setRoomStatus = (roomId: string, room: GameRoom, status: RoomStatus): boolean => {
+  if (!canTransitionRoom(room.status, status)) {
+    console.log('[Server] Invalid room transition:', { roomId, from: room.status, to: status });
+    return false;
+  }
+  console.log('[Server] Room status changed:', { roomId, from: room.status, to: status });
+  room.status = status;
+  io.to(roomId).emit('roomStatusChanged', {
+    status,
+    players: Array.from(room.players.values()),
+    spectators: Array.from(room.spectators.values())
+  });
+  return true;
+};
+
+// Everyone in the match, including eliminated players now spectating
+const getParticipants = (room: GameRoom): Player[] =>
+  [...room.players.values(), ...room.eliminated.values()];
+
+// Bring the eliminated players back and put everyone on a fresh spawn;
+// `spawn` decides what carries over
+const respawnEveryone = (room: GameRoom, spawn: (player: Player, position: Vector2D) => Player) => {
+  for (const [playerId, player] of room.eliminated) {
+    if (room.spectators.delete(playerId)) room.players.set(playerId, player);
+  }
+  room.eliminated.clear();
+
+  const occupied: Vector2D[] = [];
+  for (const player of room.players.values()) {
+    const position = chooseSpawnPoint(room.map, occupied);
+    occupied.push(position);
+    room.players.set(player.id, spawn(player, position));
+  }
+};
+
+// Clear everything the last match left behind and bring its eliminated
+// players and late joiners in, everyone on a fresh spawn for the next match
+const resetRoom = (room: GameRoom) => {
+  for (const [playerId, player] of room.waitingForNextMatch) {
+    if (room.spectators.delete(playerId)) room.players.set(playerId, player);
+  }
+  room.waitingForNextMatch.clear();
+  respawnEveryone(room, resetPlayer);
+
+  // Clients start the next match with fresh input sequences and snapshot state
+  room.projectiles = [];
+  room.pendingInputs.clear();
+  room.lastProcessedInputs.clear();
+  room.positionHistory = [];
+  room.projectileRewinds.clear();
+  room.snapshotHistory = [];
+  room.snapshotAcks.clear();
+  room.entityIds = createEntityIdTable();
+  room.retiredEntities = [];
+  room.nextShotTimes.clear();
+  room.pickups = [];
+  room.matchEndTick = null;
+  room.respawnTicks.clear();
+  room.teamScores = createTeamScores();
+  room.flags = [];
+  room.hill = null;
+  room.zone = null;
+  room.rounds = null;
+  room.nextRoundTick = null;
+  room.roundResult = null;
+  room.ready.clear();
+  room.startTick = null;
+};
+
+// Start the next round of a best-of match once the break is over. Everyone
+// comes back on a fresh spawn; kills and deaths carry over.
+const startRound = (roomId: string, room: GameRoom) => {
+  respawnEveryone(room, respawnPlayer);
+  for (const projectile of room.projectiles) {
+    room.projectileRewinds.delete(projectile.id);
+    room.retiredEntities.push({ id: projectile.id, tick: room.tick });
+  }
+  room.projectiles = [];
+  room.pendingInputs.clear();
+  room.respawnTicks.clear();
+  room.pickups = createPickups(room.map);
+  room.matchEndTick = getMatchEndTick(room.settings, room.tick);
+  room.zone = GAME_MODES[room.settings.mode].safeZone ? createSafeZone(room.map, room.tick) : null;
+  room.rounds = { ...room.rounds!, round: room.rounds!.round + 1 };
+  room.nextRoundTick = null;
+  room.roundResult = null;
+
+  console.log('[Server] Round started:', { roomId, round: room.rounds.round });
+  setRoomStatus(roomId, room, 'playing');
+  io.to(roomId).emit('roundStarted', { rounds: room.rounds, endTick: room.matchEndTick });
+  for (const player of room.players.values()) {
+    io.to(roomId).emit('playerRespawned', { playerId: player.id, position: player.position });
+  }
+  io.to(roomId).emit('pickupsUpdated', room.pickups);
+  broadcastSpectators(roomId, room);
+};
+
+// Score a finished round of a best-of match. The match ends if that decides
+// it; otherwise there is a break before the next round.
+const endRound = (roomId: string, room: GameRoom, result: MatchResult) => {
+  const rounds = recordRoundWin(room.rounds!, result.winner);
+  room.rounds = rounds;
+  console.log('[Server] Round over:', {
+    roomId,
+    round: rounds.round,
+    reason: result.reason,
+    winnerUsername: result.winner?.username
+  });
+
+  const decided = checkRoundWins(room.settings, rounds, getParticipants(room));
+  if (decided) {
+    endMatch(roomId, room, decided);
+    return;
+  }
+
+  room.nextRoundTick = getNextRoundTick(room.tick);
+  room.roundResult = {
+    rounds,
+    winnerId: result.winner ? result.winner.id : null,
+    winnerUsername: result.winner ? result.winner.username : null,
+    reason: result.reason,
+    standings: rankPlayers(getParticipants(room)),
+    nextRoundTick: room.nextRoundTick
+  };
+  setRoomStatus(roomId, room, 'roundEnd');
+  io.to(roomId).emit('roundEnded', room.roundResult);
+};
+
+// Hand the creator role on when the creator leaves: to a player if there is
+// one, else to a spectator, so someone can still start the next match
+const reassignCreator = (roomId: string, room: GameRoom) => {
+  const [newCreatorId] = [...room.players.keys(), ...room.spectators.keys()];
+  if (!newCreatorId) return;
+
+  room.creatorId = newCreatorId;
+  const newCreator = room.players.get(newCreatorId) || room.eliminated.get(newCreatorId);
+  if (newCreator) newCreator.isCreator = true;
+  console.log('[Server] Creator changed:', { roomId, newCreatorId });
+
+  // Notify all clients about the creator change
+  io.to(roomId).emit('creatorChanged', {
+    newCreatorId,
+    players: Array.from(room.players.values())
+  });
+};
+
+// Someone leaving mid-match can decide it, as a death would: the last player
+// standing wins. A forfeit ends even a best-of match, with nobody left to
+// play more rounds against.
+const checkPlayerLeft = (roomId: string, room: GameRoom) => {
+  if (room.status !== 'playing' && room.status !== 'roundEnd') return;
+
+  const forfeit = checkForfeit(room.settings, getParticipants(room));
+  if (forfeit) {
+    endMatch(roomId, room, forfeit);
+    return;
+  }
+  if (room.status !== 'playing') return;
+
+  const result = checkScoreLimit(room.settings, Array.from(room.players.values()), room.teamScores, room.hill);
+  if (!result) return;
+  if (room.rounds) {
+    endRound(roomId, room, result);
+  } else {
+    endMatch(roomId, room, result);
+  }
+};
+
+const broadcastSpectators = (roomId: string, room: GameRoom) => {
+  io.to(roomId).emit('spectatorsUpdated', Array.from(room.spectators.values()));
+};
+
+const broadcastReady = (roomId: string, room: GameRoom) => {
+  io.to(roomId).emit('readyChanged', Array.from(room.ready));
+};
+
+// Count down to the match. Every client gets the same start tick, so they
+// all begin on it.
+const startCountdown = (roomId: string, room: GameRoom) => {
+  if (!setRoomStatus(roomId, room, 'countdown')) return;
+  room.startTick = getMatchStartTick(room.tick);
+  console.log('[Server] Countdown started:', { roomId, startTick: room.startTick });
+  io.to(roomId).emit('countdownStarted', {
+    startTick: room.startTick,
+    duration: START_COUNTDOWN
+  });
+};
+
+// Count down by itself, in rooms that start when everyone is ready
+const startIfEveryoneReady = (roomId: string, room: GameRoom) => {
+  if (
+    room.settings.startWhenReady &&
+    room.status === 'waiting' &&
+    isEveryoneReady(Array.from(room.players.keys()), room.ready)
+  ) {
+    startCountdown(roomId, room);
+  }
+};
+
+// Call the countdown off and go back to the lobby, e.g. when a player
+// un-readies, leaves or joins
+const cancelCountdown = (roomId: string, room: GameRoom, reason: string) => {
+  if (room.status !== 'countdown') return;
+  room.startTick = null;
+  setRoomStatus(roomId, room, 'waiting');
+  console.log('[Server] Countdown cancelled:', { roomId, reason });
+  io.to(roomId).emit('countdownCancelled', { reason });
+};
+
+// Start the match once the countdown is over
+const startMatch = (roomId: string, room: GameRoom) => {
+  const teams = GAME_MODES[room.settings.mode].teams;
+  if (teams) {
+    for (const player of balanceTeams(Array.from(room.players.values()))) {
+      room.players.set(player.id, player);
+      io.to(roomId).emit('teamChanged', { playerId: player.id, team: player.team! });
+    }
+  }
+
+  setRoomStatus(roomId, room, 'playing');
+  room.startTick = null;
+  room.ready.clear();
+  room.pickups = createPickups(room.map);
+  room.matchEndTick = getMatchEndTick(room.settings, room.tick);
+  room.teamScores = createTeamScores();
+  const { objective } = GAME_MODES[room.settings.mode];
+  room.flags = objective === 'flags' ? createFlags(room.map) : [];
+  room.hill = objective === 'hill' ? createHill(room.map, room.settings, room.tick) : null;
+  room.zone = GAME_MODES[room.settings.mode].safeZone ? createSafeZone(room.map, room.tick) : null;
+  room.rounds = isRoundMatch(room.settings) ? { round: 1, wins: {} } : null;
+  console.log('[Server] Game started:', getRoomInfo(room));
+  io.to(roomId).emit('gameStarted', getMatchInfo(room));
+  io.to(roomId).emit('pickupsUpdated', room.pickups);
+};
+
+// What clients need to know about the running match
+const getMatchInfo = (room: GameRoom): GameStartedPayload => ({
+  settings: room.settings,
+  endTick: room.matchEndTick,
+  teamScores: GAME_MODES[room.settings.mode].teams ? room.teamScores : null,
+  flags: room.flags,
+  rounds: room.rounds,
+  roundResult: room.roundResult
+});
+
+const endMatch = (roomId: string, room: GameRoom, result: MatchResult) => {
+  console.log('[Server] Game Over:', {
+    roomId,
+    reason: result.reason,
+    winnerUsername: result.winner?.username,
+    winnerId: result.winner?.id,
+    winningTeam: result.winningTeam
+  });
+  io.to(roomId).emit('gameOver', {
+    winnerUsername: result.winner ? result.winner.username : null,
+    winnerId: result.winner ? result.winner.id : null,
+    winningTeam: result.winningTeam,
+    reason: result.reason,
+    standings: rankPlayers(getParticipants(room)),
+    teamScores: GAME_MODES[room.settings.mode].teams ? room.teamScores : null,
+    rounds: room.rounds
+  });
+  setRoomStatus(roomId, room, 'finished');
+};
+
+const FLAG_EVENTS: Record<FlagAction, 'flagTaken' | 'flagDropped' | 'flagReturned' | 'flagCaptured'> = {
+  taken: 'flagTaken',
+  dropped: 'flagDropped',
+  returned: 'flagReturned',
+  captured: 'flagCaptured'
+};
+
+// Move the flags, scoring captures for the carrier's team and telling clients
+// about every change. Returns whether a flag was captured.
+const updateRoomFlags = (roomId: string, room: GameRoom): boolean => {
+  const update = updateFlags(room.flags, room.players, room.map, room.tick);
+  room.flags = update.flags;
+
+  let captured = false;
+  for (const event of update.events) {
+    if (event.action === 'captured') {
+      const carrier = event.playerId ? room.players.get(event.playerId) : undefined;
+      if (carrier?.team) room.teamScores[carrier.team] += 1;
+      captured = true;
+    }
+    console.log(`[Server] Flag ${event.action}:`, { roomId, ...event });
+    io.to(roomId).emit(FLAG_EVENTS[event.action], {
+      team: event.team,
+      playerId: event.playerId,
+      flags: room.flags
+    });
+  }
+  return captured;
+};
+
+// Advance the hill, crediting team points to the team scores too. The hill
+// reaches clients through the world snapshot. Returns whether anyone scored.
+const updateRoomHill = (roomId: string, room: GameRoom): boolean => {
+  if (!room.hill) return false;
+  const update = updateHill(room.hill, Array.from(room.players.values()), room.map, room.tick);
+  room.hill = update.hill;
+  if (update.moved) {
+    console.log('[Server] Hill moved:', { roomId, zone: room.hill.zone, position: room.hill.position });
+  }
+  if (update.scored === null) return false;
+
+  // Team modes hold the hill by team
+  if (GAME_MODES[room.settings.mode].teams) {
+    room.teamScores[update.scored as TeamId] += 1;
+  }
+  return true;
+};
+
+// Respawn and collect pickups, telling clients when any changed. Their effects
+// on players reach clients through the world snapshot.
+const updateRoomPickups = (roomId: string, room: GameRoom) => {
+  const update = updatePickups(room.pickups, Array.from(room.players.values()), room.map, room.tick);
+  if (update.collected.length === 0 && update.respawned === 0) return;
+
+  room.pickups = update.pickups;
+  room.players = new Map(update.players.map(p => [p.id, p]));
+  for (const collection of update.collected) {
+    console.log('[Server] Pickup collected:', { roomId, ...collection });
+  }
+  io.to(roomId).emit('pickupsUpdated', room.pickups);
+};
+
+// Send each client in the room a snapshot of the world, delta-compressed
+// against the last snapshot that client acknowledged
+const broadcastRoomState = (roomId: string, room: GameRoom) => {
+  const world = createWorldState(
+    room.tick,
+    Array.from(room.players.values()),
+    room.projectiles,
+    { hill: room.hill, zone: room.zone }
+  );
+  room.snapshotHistory.push(world);
+  while (room.snapshotHistory.length > SNAPSHOT_HISTORY_SIZE) {
+    room.snapshotHistory.shift();
+  }
+  const oldestTick = room.snapshotHistory[0].tick;
+  while (room.retiredEntities.length > 0 && room.retiredEntities[0].tick < oldestTick) {
+    releaseEntityId(room.entityIds, room.retiredEntities.shift()!.id);
+  }
+
+  // Every socket in the room, including eliminated players still watching
+  const socketIds = io.sockets.adapter.rooms.get(roomId) || new Set<string>();
+  for (const socketId of socketIds) {
+    const ackTick = room.snapshotAcks.get(socketId);
+    const base = room.snapshotHistory.find(state => state.tick === ackTick) || null;
+    emitSnapshot(room, socketId, createWorldSnapshot(base, world, room.lastProcessedInputs.get(socketId) || 0));
+  }
+};
+
+// Send a snapshot in the encoding the client negotiated
+const emitSnapshot = (room: GameRoom, socketId: string, snapshot: WorldSnapshot) => {
+  const client = io.sockets.sockets.get(socketId);
+  if (client?.data.encoding === 'binary') {
+    client.emit('worldSnapshotBinary', encodeWorldSnapshot(snapshot, room.entityIds));
+  } else {
+    client?.emit('worldSnapshot', snapshot);
+  }
+};
+
+// Send one client the whole world now, for when no snapshots are being
+// broadcast. The last broadcast state is reused when it is current, so the
+// client's ack still names a valid delta base.
+const sendKeyframe = (room: GameRoom, socketId: string) => {
+  const latest = room.snapshotHistory[room.snapshotHistory.length - 1];
+  const world = latest && latest.tick === room.tick
+    ? latest
+    : createWorldState(
+      room.tick,
+      Array.from(room.players.values()),
+      room.projectiles,
+      { hill: room.hill, zone: room.zone }
+    );
+  emitSnapshot(room, socketId, createWorldSnapshot(null, world, room.lastProcessedInputs.get(socketId) || 0));
+};
+
+// Game update loop: run fixed-length ticks for the real time that has elapsed
+let lastLoopTime = performance.now();
+let tickAccumulator = 0;
+setInterval(() => {
+  const now = performance.now();
+  tickAccumulator += now - lastLoopTime;
+  lastLoopTime = now;
+
+  let ticks = 0;
+  while (tickAccumulator >= TICK_INTERVAL && ticks < MAX_TICKS_PER_UPDATE) {
+    tickAccumulator -= TICK_INTERVAL;
+    ticks++;
+    for (const [roomId, room] of rooms.entries()) {
+      // The clock keeps running through the countdown and the break between rounds
+      if (room.status === 'countdown') {
+        room.tick += 1;
+        if (room.startTick !== null && room.tick >= room.startTick) startMatch(roomId, room);
+        continue;
+      }
+      if (room.status === 'roundEnd') {
+        room.tick += 1;
+        if (room.nextRoundTick !== null && room.tick >= room.nextRoundTick) startRound(roomId, room);
+        continue;
+      }
+      if (room.status !== 'playing') continue;
+      simulateRoomTick(roomId, room);
     }
+  }
 
-    // Update projectile positions for all clients
-    io.to(roomId).emit('projectilesUpdated', room.projectiles);
+  if (tickAccumulator >= TICK_INTERVAL) {
+    console.warn('[Server] Simulation falling behind, dropping time:', {
+      droppedMs: Math.round(tickAccumulator),
+      timestamp: new Date().toISOString()
+    });
+    tickAccumulator = 0;
+  }
+
+  if (ticks === 0) return;
+  for (const [roomId, room] of rooms.entries()) {
+    if (room.status !== 'playing') continue;
+    broadcastRoomState(roomId, room);
   }
-}, GAME_UPDATE_INTERVAL);
+}, TICK_INTERVAL);
 
 // Helper function to get room info for logging
 const getRoomInfo = (room: GameRoom) => ({
@@ -208,10 +860,19 @@ const getRoomInfo = (room: GameRoom) => ({
   players: Array.from(room.players.values()).map(p => ({
     id: p.id,
     username: p.username,
-    isCreator: p.isCreator
+    isCreator: p.isCreator,
+    team: p.team
   }))
 });
 
+// Room a client event is about: the bare room id some events send, or the
+// payload's `roomId`
+const getPayloadRoomId = (payload: unknown): string | undefined => {
+  if (typeof payload === 'string') return payload;
+  if (typeof payload !== 'object' || payload === null || !('roomId' in payload)) return undefined;
+  return String(payload.roomId);
+};
+
 io.on('connection', (socket) => {
   console.log('[Server] New client connected:', {
     socketId: socket.id,
@@ -219,10 +880,79 @@ io.on('connection', (socket) => {
     activeRooms: rooms.size
   });
 
-  socket.on('createRoom', (username: string) => {
+  // Negotiate the game-state encoding requested in the handshake
+  const requestedEncoding = socket.handshake.auth?.encoding;
+  socket.data.encoding = isWireEncoding(requestedEncoding) ? requestedEncoding : DEFAULT_ENCODING;
+  socket.emit('protocolNegotiated', { encoding: socket.data.encoding });
+
+  const emitError = (code: ErrorCode, message: string, event?: keyof ClientToServerEvents) => {
+    socket.emit('error', { code, message, event });
+  };
+
+  // Catch a client joining mid-match up on it, so it goes straight to the
+  // game screen, and send it a keyframe of the world whatever the status
+  const sendRunningMatch = (room: GameRoom) => {
+    if (room.status === 'playing' || room.status === 'roundEnd') {
+      socket.emit('gameStarted', getMatchInfo(room));
+      socket.emit('pickupsUpdated', room.pickups);
+    }
+    sendKeyframe(room, socket.id);
+  };
+
+  // Register a handler that only runs for payloads matching the event's
+  // schema; anything else is answered with an INVALID_PAYLOAD error. Events
+  // naming a room other than the one the socket joined are answered with
+  // NOT_IN_ROOM.
+  const on = <E extends keyof ClientToServerEvents>(
+    event: E,
+    handler: (payload: ClientEventPayload<E>) => void
+  ) => {
+    const listener = (payload: unknown) => {
+      const result = validateClientEvent(event, payload);
+      if (!result.ok) {
+        console.log('[Server] Invalid payload rejected:', {
+          socketId: socket.id,
+          event,
+          error: result.error
+        });
+        emitError('INVALID_PAYLOAD', result.error, event);
+        return;
+      }
+      const roomId = getPayloadRoomId(result.value);
+      if (event !== 'joinRoom' && roomId !== undefined && roomId !== socket.data.roomId) {
+        console.log('[Server] Event for another room rejected:', {
+          socketId: socket.id,
+          event,
+          roomId,
+          joinedRoomId: socket.data.roomId
+        });
+        emitError('NOT_IN_ROOM', 'Not in this room', event);
+        return;
+      }
+      handler(result.value);
+    };
+    // The listener's payload is unknown until validated, so it can't be typed
+    // as the event's own handler
+    socket.on(event, listener as never);
+  };
+
+  // Measure round-trip time periodically for lag compensation
+  const latencyTimer = setInterval(() => {
+    const sentAt = Date.now();
+    socket.emit('latencyPing', () => {
+      const rtt = Date.now() - sentAt;
+      const previous = playerLatencies.get(socket.id);
+      playerLatencies.set(socket.id, previous === undefined ? rtt : previous * 0.8 + rtt * 0.2);
+    });
+  }, LATENCY_PING_INTERVAL);
+
+  on('createRoom', ({ username, mapId, map: customMap, settings = DEFAULT_MATCH_SETTINGS }) => {
     console.log('[Server] Room creation requested:', {
       socketId: socket.id,
       username,
+      mapId: customMap ? customMap.id : mapId,
+      customMap: !!customMap,
+      settings,
       timestamp: new Date().toISOString()
     });
 
@@ -231,19 +961,49 @@ io.on('connection', (socket) => {
       const existingPlayer = Array.from(room.players.values()).find(p => p.username === username);
       if (existingPlayer) {
         console.log('[Server] User already has a room:', existingRoomId);
-        socket.emit('error', 'You already have an active room');
+        emitError('ALREADY_IN_ROOM', 'You already have an active room', 'createRoom');
         return;
       }
     }
 
+    // Use the uploaded layout if there is one, otherwise a built-in map
+    const map = customMap || getMap(mapId || DEFAULT_MAP_ID);
+    if (!map) {
+      emitError('INVALID_MAP', `Unknown map: ${mapId}`, 'createRoom');
+      return;
+    }
+    const layoutErrors = validateMapLayout(map);
+    if (layoutErrors.length > 0) {
+      console.log('[Server] Invalid map layout:', { socketId: socket.id, errors: layoutErrors });
+      emitError('INVALID_MAP', layoutErrors[0], 'createRoom');
+      return;
+    }
+    const { objective } = GAME_MODES[settings.mode];
+    if (objective === 'flags' && !getFlagBases(map)) {
+      emitError('INVALID_MAP', `${map.name} has no flag bases for capture the flag`, 'createRoom');
+      return;
+    }
+    if (objective === 'hill' && !map.hillZones?.length) {
+      emitError('INVALID_MAP', `${map.name} has no hill zones for king of the hill`, 'createRoom');
+      return;
+    }
+
     const roomId = uuidv4();
     const player: Player = {
       id: socket.id,
       username,
-      position: { x: 400, y: 300 },
+      position: chooseSpawnPoint(map, []),
       rotation: 0,
       health: 100,
-      isCreator: true
+      isCreator: true,
+      weapon: DEFAULT_WEAPON,
+      ammo: createAmmo(),
+      reload: null,
+      armor: 0,
+      powerUps: {},
+      kills: 0,
+      deaths: 0,
+      team: GAME_MODES[settings.mode].teams ? pickTeam([]) : null
     };
 
     const room: GameRoom = {
@@ -251,9 +1011,35 @@ io.on('connection', (socket) => {
       players: new Map([[socket.id, player]]),
       projectiles: [],
       status: 'waiting',
+      map,
       creatorId: socket.id,
       lastActivity: Date.now(),
-      lastPlayerUpdates: new Map()
+      pendingInputs: new Map(),
+      lastProcessedInputs: new Map(),
+      tick: 0,
+      positionHistory: [],
+      projectileRewinds: new Map(),
+      snapshotHistory: [],
+      snapshotAcks: new Map(),
+      entityIds: createEntityIdTable(),
+      retiredEntities: [],
+      nextShotTimes: new Map(),
+      pickups: [],
+      settings,
+      matchEndTick: null,
+      respawnTicks: new Map(),
+      teamScores: createTeamScores(),
+      flags: [],
+      hill: null,
+      zone: null,
+      spectators: new Map(),
+      eliminated: new Map(),
+      waitingForNextMatch: new Map(),
+      rounds: null,
+      nextRoundTick: null,
+      roundResult: null,
+      ready: new Set(),
+      startTick: null
     };
 
     // Set up room and join socket to room
@@ -275,23 +1061,30 @@ io.on('connection', (socket) => {
     socket.emit('roomJoined', {
       playerId: socket.id,
       players: Array.from(room.players.values()),
-      isCreator: true
+      isCreator: true,
+      map: room.map,
+      settings: room.settings,
+      status: room.status,
+      spectators: [],
+      spectating: false,
+      queuedForNextMatch: false,
+      ready: []
     });
   });
 
-  socket.on('joinRoom', ({ roomId, username }: { roomId: string; username: string }) => {
+  on('joinRoom', ({ roomId, username, spectate }) => {
     console.log('[Server] Join room request:', { roomId, username, socketId: socket.id });
     
     // If roomId is 'create', treat it as a special case
     if (roomId === 'create') {
-      socket.emit('error', 'Invalid room ID');
+      emitError('INVALID_ROOM_ID', 'Invalid room ID', 'joinRoom');
       return;
     }
     
     const room = rooms.get(roomId);
     if (!room) {
       console.log('[Server] Room not found:', roomId);
-      socket.emit('error', 'Room not found');
+      emitError('ROOM_NOT_FOUND', 'Room not found', 'joinRoom');
       return;
     }
 
@@ -300,28 +1093,28 @@ io.on('connection', (socket) => {
     const isReconnecting = disconnectedPlayer && disconnectedPlayer.roomId === roomId;
     
     // Check if username already exists in the room
-    const existingPlayer = Array.from(room.players.values()).find(p => p.username === username);
+    const existingPlayer = [...room.players.values(), ...room.spectators.values()].find(p => p.username === username);
     if (existingPlayer && existingPlayer.id !== socket.id && !isReconnecting) {
-      socket.emit('error', 'Username already taken in this room');
+      emitError('USERNAME_TAKEN', 'Username already taken in this room', 'joinRoom');
+      return;
+    }
+
+    // Joining a running match is up to the room's late join policy; players
+    // reconnecting to it are never turned away
+    const matchRunning = room.status === 'playing' || room.status === 'roundEnd';
+    const { lateJoin } = room.settings;
+    if (matchRunning && !spectate && lateJoin === 'reject' && !isReconnecting) {
+      console.log('[Server] Late join rejected:', { roomId, username, status: room.status });
+      emitError('MATCH_IN_PROGRESS', 'The match has already started', 'joinRoom');
       return;
     }
 
     // Join the Socket.IO room
     socket.join(roomId);
     socket.data.roomId = roomId;
-    
-    // Add player to the room
-    const isCreatorStatus = isReconnecting ? disconnectedPlayer?.wasCreator : false;
-    const newPlayer: Player = {
-      id: socket.id,
-      position: { x: Math.random() * (800 - 100) + 50, y: Math.random() * (600 - 100) + 50 },
-      rotation: 0,
-      health: 100,
-      username: username,
-      isCreator: isCreatorStatus
-    };
 
-    // If this is a reconnecting creator, update room's creatorId
+    // If this is a reconnecting creator, update room's creatorId, whether
+    // they come back as a player or a spectator
     if (isReconnecting && disconnectedPlayer?.wasCreator) {
       room.creatorId = socket.id;
       // Remove previous creator status if someone else was temporary creator
@@ -330,16 +1123,92 @@ io.on('connection', (socket) => {
           p.isCreator = false;
         }
       }
+      io.to(roomId).emit('creatorChanged', {
+        newCreatorId: socket.id,
+        players: Array.from(room.players.values())
+      });
     }
 
-    room.players.set(socket.id, newPlayer);
-    room.lastActivity = Date.now();
-
     // Clean up from recentlyDisconnected if reconnecting
     if (isReconnecting) {
       recentlyDisconnected.delete(username);
     }
 
+    // Late joiners watch the match and play the next one, come in through
+    // the respawn queue, or in modes without respawns sit the match or round
+    // out watching it and play the next one
+    const watching = spectate || (matchRunning && lateJoin === 'spectate');
+    const benched = matchRunning && !watching && !GAME_MODES[room.settings.mode].respawns;
+    const respawning = matchRunning && !watching && !benched;
+
+    // The joining player, or the player a late joiner watching the match
+    // becomes for the next one
+    const isCreatorStatus = isReconnecting ? !!disconnectedPlayer?.wasCreator : false;
+    const newPlayer: Player = {
+      id: socket.id,
+      position: chooseSpawnPoint(room.map, Array.from(room.players.values()).map(p => p.position)),
+      rotation: 0,
+      health: respawning ? 0 : 100,
+      username: username,
+      isCreator: isCreatorStatus,
+      weapon: DEFAULT_WEAPON,
+      ammo: createAmmo(),
+      reload: null,
+      armor: 0,
+      powerUps: {},
+      kills: 0,
+      deaths: 0,
+      team: GAME_MODES[room.settings.mode].teams ? pickTeam(Array.from(room.players.values())) : null
+    };
+
+    // Spectators get the room's state, and the running match if there is one,
+    // without becoming players
+    if (watching) {
+      room.spectators.set(socket.id, { id: socket.id, username });
+      if (!spectate) room.waitingForNextMatch.set(socket.id, newPlayer);
+      room.snapshotAcks.delete(socket.id);
+      room.lastActivity = Date.now();
+      socket.emit('roomJoined', {
+        playerId: socket.id,
+        players: Array.from(room.players.values()),
+        isCreator: socket.id === room.creatorId,
+        map: room.map,
+        settings: room.settings,
+        status: room.status,
+        spectators: Array.from(room.spectators.values()),
+        spectating: true,
+        queuedForNextMatch: !spectate,
+        ready: Array.from(room.ready)
+      });
+      broadcastSpectators(roomId, room);
+      if (room.status === 'countdown' && room.startTick !== null) {
+        socket.emit('countdownStarted', {
+          startTick: room.startTick,
+          duration: (room.startTick - room.tick) * TICK_INTERVAL
+        });
+      }
+      sendRunningMatch(room);
+      console.log('[Server] Spectator joined room:', {
+        socketId: socket.id,
+        roomId,
+        status: room.status,
+        lateJoin: !spectate,
+        spectatorCount: room.spectators.size
+      });
+      return;
+    }
+    
+    if (benched) {
+      room.spectators.set(socket.id, { id: socket.id, username });
+      room.eliminated.set(socket.id, newPlayer);
+    } else {
+      room.players.set(socket.id, newPlayer);
+    }
+    // Spawned on the next tick, away from their opponents
+    if (respawning) room.respawnTicks.set(socket.id, room.tick);
+    room.snapshotAcks.delete(socket.id);
+    room.lastActivity = Date.now();
+
     // Get updated player list with correct creator status
     const updatedPlayers = Array.from(room.players.values()).map(p => ({
       ...p,
@@ -350,16 +1219,28 @@ io.on('connection', (socket) => {
     socket.emit('roomJoined', {
       playerId: socket.id,
       players: updatedPlayers,
-      isCreator: newPlayer.isCreator
+      isCreator: isCreatorStatus,
+      map: room.map,
+      settings: room.settings,
+      status: room.status,
+      spectators: Array.from(room.spectators.values()),
+      spectating: false,
+      queuedForNextMatch: false,
+      ready: Array.from(room.ready)
     });
 
     // Broadcast new player to others in the room
-    socket.to(roomId).emit('playerJoined', newPlayer);
+    if (benched) broadcastSpectators(roomId, room);
+    else socket.to(roomId).emit('playerJoined', newPlayer);
+    // The newcomer isn't ready yet
+    cancelCountdown(roomId, room, `${username} joined`);
+    sendRunningMatch(room);
 
     console.log('[Server] Player joined room:', {
       socketId: socket.id,
       roomId,
       isReconnecting,
+      lateJoin: matchRunning ? (benched ? 'next round' : 'next respawn') : null,
       isCreator: newPlayer.isCreator,
       playerCount: room.players.size,
       timestamp: new Date().toISOString()
@@ -367,12 +1248,38 @@ io.on('connection', (socket) => {
   });
 
   socket.on('disconnect', () => {
+    clearInterval(latencyTimer);
+    playerLatencies.delete(socket.id);
+
     const roomId = socket.data.roomId;
     if (!roomId) return;
 
     const room = rooms.get(roomId);
     if (!room) return;
 
+    const spectator = room.spectators.get(socket.id);
+    if (spectator) {
+      // Knocked-out players and the creator can come back as themselves
+      if (room.eliminated.has(socket.id) || socket.id === room.creatorId) {
+        recentlyDisconnected.set(spectator.username, {
+          roomId,
+          timestamp: Date.now(),
+          username: spectator.username,
+          wasCreator: socket.id === room.creatorId
+        });
+      }
+      room.spectators.delete(socket.id);
+      room.waitingForNextMatch.delete(socket.id);
+      const wasEliminated = room.eliminated.delete(socket.id);
+      room.snapshotAcks.delete(socket.id);
+      if (socket.id === room.creatorId) reassignCreator(roomId, room);
+      broadcastSpectators(roomId, room);
+      if (wasEliminated) checkPlayerLeft(roomId, room);
+      room.lastActivity = Date.now();
+      console.log('[Server] Spectator disconnected:', { socketId: socket.id, roomId });
+      return;
+    }
+
     const player = room.players.get(socket.id);
     if (!player) return;
 
@@ -386,24 +1293,22 @@ io.on('connection', (socket) => {
 
     // Remove player from room
     room.players.delete(socket.id);
+    room.pendingInputs.delete(socket.id);
+    room.lastProcessedInputs.delete(socket.id);
+    room.snapshotAcks.delete(socket.id);
+    room.nextShotTimes.delete(socket.id);
+    room.respawnTicks.delete(socket.id);
+    if (room.ready.delete(socket.id)) broadcastReady(roomId, room);
+    // Whoever was holding the others up may have left
+    if (room.status === 'countdown') cancelCountdown(roomId, room, `${player.username} left`);
+    else startIfEveryoneReady(roomId, room);
 
-    // If this was the creator and there are other players, assign creator to another player
-    if (socket.id === room.creatorId && room.players.size > 0) {
-      const newCreator = Array.from(room.players.values())[0];
-      if (newCreator) {
-        room.creatorId = newCreator.id;
-        newCreator.isCreator = true;
-      }
-      
-      // Notify all clients about the creator change
-      io.to(roomId).emit('creatorChanged', {
-        newCreatorId: newCreator?.id,
-        players: Array.from(room.players.values())
-      });
-    }
+    // If this was the creator, assign creator to someone still in the room
+    if (socket.id === room.creatorId) reassignCreator(roomId, room);
 
     // Broadcast player left event
     io.to(roomId).emit('playerLeft', socket.id);
+    checkPlayerLeft(roomId, room);
 
     // Don't delete room immediately if it's empty - grace period is handled by cleanup interval
     room.lastActivity = Date.now();
@@ -416,74 +1321,113 @@ io.on('connection', (socket) => {
     });
   });
 
-  // Handle player updates (movement, rotation)
-  socket.on('updatePlayer', ({ roomId, position, rotation }: { roomId: string; position: Vector2D; rotation: number }) => {
+  // Queue player inputs; movement is simulated by the game loop
+  on('playerInput', ({ roomId, input }) => {
     const room = rooms.get(roomId);
     if (!room) return;
+    queuePlayerInput(room, socket.id, input);
+  });
 
-    const now = Date.now();
-    const lastUpdate = room.lastPlayerUpdates.get(socket.id) || 0;
-    if (now - lastUpdate < MIN_UPDATE_INTERVAL) {
-      return; // Too soon for another update
-    }
-
-    const player = room.players.get(socket.id);
-    if (!player) return;
-
-    // Update the player in the room
-    const updatedPlayer = { ...player, position, rotation };
-    room.players.set(socket.id, updatedPlayer);
-    room.lastPlayerUpdates.set(socket.id, now);
-    room.lastActivity = now;
-
-    // Log the update
-    console.log('[Server] Player update:', {
-      roomId,
-      position: { x: Math.round(position.x), y: Math.round(position.y) },
-      rotation: Math.round(rotation * 100) / 100,
-      playerId: socket.id
-    });
+  // Binary-encoded inputs carry no room id; the socket's room is used
+  on('playerInputBinary', (data) => {
+    const room = socket.data.roomId ? rooms.get(socket.data.roomId) : undefined;
+    if (!room) return;
 
-    // Broadcast to other players only
-    socket.to(roomId).emit('playerUpdated', {
-      playerId: socket.id,
-      position,
-      rotation
-    });
+    try {
+      queuePlayerInput(room, socket.id, decodePlayerInput(data));
+    } catch (error) {
+      if (!(error instanceof ProtocolError)) throw error;
+      console.log('[Server] Malformed binary input:', { socketId: socket.id, error: error.message });
+    }
   });
 
-  socket.on('startGame', (roomId: string) => {
+  on('startGame', (roomId) => {
     console.log('[Server] Start game requested:', { roomId });
     const room = rooms.get(roomId);
     
     if (!room) {
       console.log('[Server] Start game failed - Room not found:', { roomId });
-      socket.emit('error', { message: 'Room not found' });
+      emitError('ROOM_NOT_FOUND', 'Room not found', 'startGame');
       return;
     }
 
     if (socket.id !== room.creatorId) {
       console.log('[Server] Start game failed - Not room creator:', { roomId, socketId: socket.id });
-      socket.emit('error', { message: 'Only the room creator can start the game' });
+      emitError('NOT_ROOM_CREATOR', 'Only the room creator can start the game', 'startGame');
+      return;
+    }
+
+    if (!canTransitionRoom(room.status, 'countdown')) {
+      console.log('[Server] Start game failed - Room not in the lobby:', { roomId, status: room.status });
+      emitError('INVALID_ROOM_STATE', 'The game has already started', 'startGame');
       return;
     }
 
-    if (room.players.size < 2) {
+    if (room.players.size < MIN_PLAYERS) {
       console.log('[Server] Start game failed - Not enough players:', { roomId, playerCount: room.players.size });
-      socket.emit('error', { message: 'Need at least 2 players to start' });
+      emitError('NOT_ENOUGH_PLAYERS', `Need at least ${MIN_PLAYERS} players to start`, 'startGame');
+      return;
+    }
+
+    if (!isEveryoneReady(Array.from(room.players.keys()), room.ready)) {
+      console.log('[Server] Start game failed - Players not ready:', { roomId, ready: room.ready.size });
+      emitError('PLAYERS_NOT_READY', 'Every player needs to be ready to start', 'startGame');
+      return;
+    }
+
+    startCountdown(roomId, room);
+  });
+
+  on('setReady', ({ roomId, ready }) => {
+    const room = rooms.get(roomId);
+    const player = room?.players.get(socket.id);
+    if (!room || !player || ready === room.ready.has(socket.id)) return;
+
+    if (room.status !== 'waiting' && room.status !== 'countdown') {
+      emitError('INVALID_ROOM_STATE', 'The game has already started', 'setReady');
+      return;
+    }
+
+    if (ready) room.ready.add(socket.id);
+    else room.ready.delete(socket.id);
+    room.lastActivity = Date.now();
+    console.log('[Server] Player ready changed:', { roomId, username: player.username, ready });
+    broadcastReady(roomId, room);
+
+    if (ready) startIfEveryoneReady(roomId, room);
+    else cancelCountdown(roomId, room, `${player.username} is not ready`);
+  });
+
+  on('playAgain', (roomId) => {
+    const room = rooms.get(roomId);
+    if (!room) {
+      emitError('ROOM_NOT_FOUND', 'Room not found', 'playAgain');
+      return;
+    }
+
+    if (socket.id !== room.creatorId) {
+      emitError('NOT_ROOM_CREATOR', 'Only the room creator can start another match', 'playAgain');
       return;
     }
 
-    room.status = 'playing';
-    console.log('[Server] Game started:', getRoomInfo(room));
-    io.to(roomId).emit('gameStarted');
+    if (!canTransitionRoom(room.status, 'waiting')) {
+      emitError('INVALID_ROOM_STATE', 'The match has not finished yet', 'playAgain');
+      return;
+    }
+
+    resetRoom(room);
+    room.lastActivity = Date.now();
+    setRoomStatus(roomId, room, 'waiting');
+    broadcastReady(roomId, room);
+    console.log('[Server] Room reset for another match:', getRoomInfo(room));
   });
 
-  socket.on('shoot', ({ roomId, position, angle }: { roomId: string; position: Vector2D; angle: number }) => {
+  on('shoot', ({ roomId, position, angle, tick }) => {
     console.log('[Server] Shoot event received:', {
       roomId,
       position,
       angle,
+      tick,
       playerId: socket.id
     });
 
@@ -498,15 +1442,108 @@ io.on('connection', (socket) => {
       return;
     }
 
-    const projectile = createProjectile(position, angle, socket.id);
-    room.projectiles.push(projectile);
-    console.log('[Server] Projectile created:', {
-      id: projectile.id,
-      position: projectile.position,
-      velocity: projectile.velocity
+    const now = Date.now();
+    const shooter = room.players.get(socket.id);
+    const shot = validateShot(
+      shooter,
+      angle,
+      position,
+      room.nextShotTimes.get(socket.id),
+      now,
+      room.map
+    );
+    if (!shot.ok) {
+      console.log(isExpectedRejection(shot.reason) ? '[Server] Shot blocked:' : '[AntiCheat] Shot rejected:', {
+        roomId,
+        playerId: socket.id,
+        reason: shot.reason,
+        timestamp: new Date(now).toISOString()
+      });
+      return;
+    }
+    if (shot.muzzleError > MUZZLE_MISMATCH_DISTANCE) {
+      console.log('[AntiCheat] Shot position mismatch:', {
+        roomId,
+        playerId: socket.id,
+        claimed: position,
+        authoritative: shot.muzzle,
+        distance: Math.round(shot.muzzleError)
+      });
+    }
+
+    room.nextShotTimes.set(socket.id, getNextShotTime(shooter!, shot.weapon, now));
+    room.players.set(socket.id, consumeRound(shooter!, room.tick));
+    const projectiles = createShot(shot.muzzle, angle, socket.id, shot.weapon);
+    const rewindTicks = resolveRewindTicks(room.tick, tick, playerLatencies.get(socket.id) || 0);
+    for (const projectile of projectiles) {
+      room.projectiles.push(projectile);
+      room.projectileRewinds.set(projectile.id, rewindTicks);
+    }
+    console.log('[Server] Shot fired:', {
+      weapon: shot.weapon,
+      projectileIds: projectiles.map(p => p.id),
+      position: shot.muzzle,
+      rewindTicks
     });
+  });
+
+  on('switchWeapon', ({ roomId, weapon }) => {
+    const room = rooms.get(roomId);
+    const player = room?.players.get(socket.id);
+    if (!room || room.status !== 'playing' || !player || !isPlayerAlive(player) || player.weapon === weapon) return;
+
+    // Switching abandons a reload in progress
+    room.players.set(socket.id, { ...player, weapon, reload: null });
+    console.log('[Server] Weapon switched:', { roomId, playerId: socket.id, weapon });
+  });
+
+  on('reload', ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const player = room?.players.get(socket.id);
+    if (!room || room.status !== 'playing' || !player || !isPlayerAlive(player) || !canReload(player)) return;
+
+    room.players.set(socket.id, startReload(player, room.tick));
+    console.log('[Server] Reload started:', { roomId, playerId: socket.id, weapon: player.weapon });
+  });
+
+  // Players pick a team in the lobby, as long as it keeps the teams within
+  // one player of each other
+  on('selectTeam', ({ roomId, team }) => {
+    const room = rooms.get(roomId);
+    const player = room?.players.get(socket.id);
+    if (!room || !player || player.team === team) return;
+
+    if (!GAME_MODES[room.settings.mode].teams || room.status !== 'waiting') {
+      emitError('TEAM_UNAVAILABLE', 'Teams can only be chosen in the lobby of a team game', 'selectTeam');
+      return;
+    }
+    const players = Array.from(room.players.values());
+    const current = player.team ? countTeam(players, player.team) : 0;
+    if (countTeam(players, team) + 1 - (current - 1) > 1) {
+      emitError('TEAM_UNAVAILABLE', `${TEAMS[team].name} team is full`, 'selectTeam');
+      return;
+    }
+
+    room.players.set(socket.id, { ...player, team });
+    console.log('[Server] Team selected:', { roomId, playerId: socket.id, team });
+    io.to(roomId).emit('teamChanged', { playerId: socket.id, team });
+  });
 
-    io.to(roomId).emit('projectileCreated', projectile);
+  // Clients acknowledge each snapshot they applied so later ones can be deltas
+  on('snapshotAck', ({ roomId, tick }) => {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    room.snapshotAcks.set(socket.id, tick);
+  });
+
+  // A client that lost its delta base asks for a full snapshot
+  on('requestKeyframe', ({ roomId }) => {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    console.log('[Server] Keyframe requested:', { roomId, socketId: socket.id });
+    room.snapshotAcks.delete(socket.id);
+    // Nothing is broadcast between rounds, so answer straight away
+    if (room.status !== 'playing') sendKeyframe(room, socket.id);
   });
 });
 
@@ -1,17 +1,94 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { useState, useEffect, ChangeEvent } from 'react';
+import { io } from 'socket.io-client';
 import { useRouter } from 'next/navigation';
+import { GameMap, MatchSettings } from '@/types/game';
+import { CreateRoomPayload, GameSocket } from '@/types/events';
+import { MapError, parseGameMap } from '@/game/map';
+import { validateMapLayout } from '@/game/mapLayout';
+import { DEFAULT_MAP_ID, MAPS, getMap } from '@/game/maps';
+import { getFlagBases } from '@/game/flags';
+import {
+  DEFAULT_MATCH_SETTINGS,
+  GAME_MODES,
+  GAME_MODE_IDS,
+  GameModeId,
+  LATE_JOIN_POLICIES,
+  LATE_JOIN_POLICY_IDS,
+  LateJoinPolicy,
+  Objective,
+  SCORE_UNITS
+} from '@/game/modes';
+import { EDITOR_MAP_STORAGE_KEY } from '@/components/client/MapEditor';
+
+// Map choices besides the built-in maps
+const EDITOR_MAP = 'editor';
+const FILE_MAP = 'file';
+
+// Limit choices offered for modes that use them; time limits are in seconds
+const SCORE_LIMITS: Record<Objective, number[]> = {
+  kills: [5, 10, 20, 30, 50],
+  flags: [1, 2, 3, 5, 10],
+  hill: [25, 50, 75, 100]
+};
+const SCORE_LIMIT_LABELS: Record<Objective, string> = {
+  kills: 'Frag Limit',
+  flags: 'Capture Limit',
+  hill: 'Point Limit'
+};
+const TIME_LIMITS = [0, 5 * 60, 10 * 60, 15 * 60, 20 * 60];
+// Best-of round counts for round-based modes
+const ROUND_COUNTS = [1, 3, 5, 7];
+
+// Parse a layout and check it is playable, throwing a MapError otherwise
+const loadLayout = (data: unknown): GameMap => {
+  const map = parseGameMap(data);
+  const errors = validateMapLayout(map);
+  if (errors.length > 0) throw new MapError(errors[0]);
+  return map;
+};
 
 export default function CreateRoom() {
   const [username, setUsername] = useState('');
   const [error, setError] = useState('');
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
+  const [mapChoice, setMapChoice] = useState(DEFAULT_MAP_ID);
+  const [editorMap, setEditorMap] = useState<GameMap | null>(null);
+  const [fileMap, setFileMap] = useState<GameMap | null>(null);
+  const [settings, setSettings] = useState<MatchSettings>(DEFAULT_MATCH_SETTINGS);
   const router = useRouter();
 
+  const mode = GAME_MODES[settings.mode];
+  const selectedMap = mapChoice === EDITOR_MAP ? editorMap : mapChoice === FILE_MAP ? fileMap : getMap(mapChoice);
+
+  // Each objective has its own range of limits, so keep the limit a valid
+  // choice for the new mode
+  const handleModeChange = (modeId: GameModeId) => {
+    const limits = SCORE_LIMITS[GAME_MODES[modeId].objective];
+    setSettings(prev => ({
+      ...prev,
+      mode: modeId,
+      fragLimit: limits.includes(prev.fragLimit) ? prev.fragLimit : limits[Math.floor(limits.length / 2)]
+    }));
+  };
+
+  // Offer the layout from the map editor, preselecting it when coming from there
   useEffect(() => {
-    const newSocket = io('http://localhost:3001', {
+    try {
+      const stored = localStorage.getItem(EDITOR_MAP_STORAGE_KEY);
+      if (!stored) return;
+      setEditorMap(loadLayout(JSON.parse(stored)));
+      if (new URLSearchParams(window.location.search).get('map') === EDITOR_MAP) {
+        setMapChoice(EDITOR_MAP);
+      }
+    } catch (error) {
+      console.warn('[CreateRoom] Ignoring unplayable editor layout:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const newSocket: GameSocket = io('http://localhost:3001', {
       transports: ['websocket'],
       reconnection: true
     });
@@ -44,24 +121,33 @@ export default function CreateRoom() {
       }, 100);
     });
 
-    socket.on('error', (message) => {
-      console.error('[CreateRoom] Socket error:', message);
-      setError(message);
-    });
-
-    socket.on('roomExists', (roomId) => {
-      console.warn('[CreateRoom] Attempted to create existing room:', roomId);
-      setError('Room already exists');
+    socket.on('error', (error) => {
+      console.error('[CreateRoom] Socket error:', error);
+      setError(error.message);
     });
 
     return () => {
       console.log('[CreateRoom] Removing socket event listeners');
       socket.off('roomCreated');
       socket.off('error');
-      socket.off('roomExists');
     };
   }, [socket, username, router]);
 
+  const handleMapFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setFileMap(loadLayout(JSON.parse(await file.text())));
+      setMapChoice(FILE_MAP);
+      setError('');
+    } catch (error) {
+      console.error('[CreateRoom] Invalid map file:', error);
+      setFileMap(null);
+      setError(`Invalid map file: ${error instanceof Error ? error.message : 'could not read it'}`);
+    }
+  };
+
   const handleCreateRoom = async () => {
     if (!socket) {
       const error = 'Connection to server failed';
@@ -77,9 +163,21 @@ export default function CreateRoom() {
       return;
     }
 
-    console.log('[CreateRoom] Attempting to create room with username:', username);
-    // Fix: Send username as a string, not an object
-    socket.emit('createRoom', username.trim());
+    const payload: CreateRoomPayload = { username: username.trim(), settings };
+    if (mapChoice === EDITOR_MAP && editorMap) {
+      payload.map = editorMap;
+    } else if (mapChoice === FILE_MAP) {
+      if (!fileMap) {
+        setError('Choose a map file');
+        return;
+      }
+      payload.map = fileMap;
+    } else {
+      payload.mapId = mapChoice;
+    }
+
+    console.log('[CreateRoom] Attempting to create room with username:', username, 'map:', payload.map?.id || payload.mapId, 'settings:', settings);
+    socket.emit('createRoom', payload);
   };
 
   return (
@@ -105,6 +203,176 @@ export default function CreateRoom() {
             />
           </div>
 
+          <div>
+            <label htmlFor="map" className="block text-sm font-medium text-gray-400 mb-1">
+              Map
+            </label>
+            <select
+              id="map"
+              value={mapChoice}
+              onChange={(e) => setMapChoice(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {MAPS.map(map => (
+                <option key={map.id} value={map.id}>{map.name}</option>
+              ))}
+              {editorMap && (
+                <option value={EDITOR_MAP}>{editorMap.name} (from editor)</option>
+              )}
+              <option value={FILE_MAP}>{fileMap ? `${fileMap.name} (from file)` : 'Load from file...'}</option>
+            </select>
+            {mapChoice === FILE_MAP && (
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleMapFile}
+                className="mt-2 w-full text-sm text-gray-400"
+              />
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="mode" className="block text-sm font-medium text-gray-400 mb-1">
+              Game Mode
+            </label>
+            <select
+              id="mode"
+              value={settings.mode}
+              onChange={(e) => handleModeChange(e.target.value as GameModeId)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {GAME_MODE_IDS.map(id => (
+                <option key={id} value={id}>{GAME_MODES[id].name}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500">{mode.description}</p>
+            {mode.objective === 'flags' && selectedMap && !getFlagBases(selectedMap) && (
+              <p className="mt-1 text-sm text-yellow-500">This map has no flag bases; place them in the map editor.</p>
+            )}
+            {mode.objective === 'hill' && selectedMap && !selectedMap.hillZones?.length && (
+              <p className="mt-1 text-sm text-yellow-500">This map has no hill zones; place them in the map editor.</p>
+            )}
+          </div>
+
+          {mode.usesLimits && (
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label htmlFor="fragLimit" className="block text-sm font-medium text-gray-400 mb-1">
+                  {SCORE_LIMIT_LABELS[mode.objective]}
+                </label>
+                <select
+                  id="fragLimit"
+                  value={settings.fragLimit}
+                  onChange={(e) => setSettings({ ...settings, fragLimit: Number(e.target.value) })}
+                  className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {SCORE_LIMITS[mode.objective].map(limit => (
+                    <option key={limit} value={limit}>{limit} {SCORE_UNITS[mode.objective]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label htmlFor="timeLimit" className="block text-sm font-medium text-gray-400 mb-1">
+                  Time Limit
+                </label>
+                <select
+                  id="timeLimit"
+                  value={settings.timeLimit}
+                  onChange={(e) => setSettings({ ...settings, timeLimit: Number(e.target.value) })}
+                  className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {TIME_LIMITS.map(limit => (
+                    <option key={limit} value={limit}>{limit > 0 ? `${limit / 60} minutes` : 'None'}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {mode.rounds && (
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label htmlFor="rounds" className="block text-sm font-medium text-gray-400 mb-1">
+                  Rounds
+                </label>
+                <select
+                  id="rounds"
+                  value={settings.rounds}
+                  onChange={(e) => setSettings({ ...settings, rounds: Number(e.target.value) })}
+                  className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ROUND_COUNTS.map(count => (
+                    <option key={count} value={count}>{count > 1 ? `Best of ${count}` : 'Single round'}</option>
+                  ))}
+                </select>
+              </div>
+              {settings.rounds > 1 && (
+                <div className="flex-1">
+                  <label htmlFor="roundTimeLimit" className="block text-sm font-medium text-gray-400 mb-1">
+                    Round Time Limit
+                  </label>
+                  <select
+                    id="roundTimeLimit"
+                    value={settings.timeLimit}
+                    onChange={(e) => setSettings({ ...settings, timeLimit: Number(e.target.value) })}
+                    className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {TIME_LIMITS.map(limit => (
+                      <option key={limit} value={limit}>{limit > 0 ? `${limit / 60} minutes` : 'None'}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {mode.teams && (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={settings.friendlyFire}
+                onChange={(e) => setSettings({ ...settings, friendlyFire: e.target.checked })}
+              />
+              Friendly fire
+            </label>
+          )}
+
+          {mode.objective === 'hill' && (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={settings.rotateHill}
+                onChange={(e) => setSettings({ ...settings, rotateHill: e.target.checked })}
+              />
+              Rotate the hill between zones every minute
+            </label>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.startWhenReady}
+              onChange={(e) => setSettings({ ...settings, startWhenReady: e.target.checked })}
+            />
+            Start when everyone is ready
+          </label>
+
+          <div>
+            <label htmlFor="lateJoin" className="block text-sm font-medium text-gray-400 mb-1">
+              Players Joining Mid-Match
+            </label>
+            <select
+              id="lateJoin"
+              value={settings.lateJoin}
+              onChange={(e) => setSettings({ ...settings, lateJoin: e.target.value as LateJoinPolicy })}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {LATE_JOIN_POLICY_IDS.map(id => (
+                <option key={id} value={id}>{LATE_JOIN_POLICIES[id].name}</option>
+              ))}
+            </select>
+          </div>
+
           {error && (
             <p className="text-sm text-red-500">{error}</p>
           )}
@@ -0,0 +1,5 @@
+import MapEditor from "@/components/client/MapEditor";
+
+export default function Editor() {
+  return <MapEditor />;
+}
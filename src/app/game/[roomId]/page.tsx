@@ -1,25 +1,60 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
 import { useSearchParams } from 'next/navigation';
-import { Player, Projectile, Vector2D } from '@/types/game';
+import { Flag, GameMap, MatchSettings, Pickup, Player, RoomStatus, Spectator } from '@/types/game';
+import {
+  ErrorCode,
+  FlagEventPayload,
+  GameError,
+  GameSocket,
+  GameStartedPayload,
+  RoomCreatedPayload,
+  RoomJoinedPayload
+} from '@/types/events';
+import { WireEncoding, encodePlayerInput, isWireEncoding } from '@/game/protocol';
+import { TeamScores } from '@/game/modes';
 import GameCanvas from '@/components/client/GameCanvas';
 import GameLobby from '@/components/client/GameLobby';
 
+// Errors that leave us without a room to be in. Anything else is shown by the
+// lobby or the match, which carry on.
+const JOIN_ERRORS: ErrorCode[] = [
+  'ROOM_NOT_FOUND',
+  'USERNAME_TAKEN',
+  'MATCH_IN_PROGRESS',
+  'INVALID_ROOM_ID',
+  'ALREADY_IN_ROOM'
+];
+
 export default function Game({ params }: { params: { roomId: string } }) {
   const searchParams = useSearchParams();
   const username = searchParams.get('username');
-  const [socket, setSocket] = useState<Socket | null>(null);
+  // Game state uses the compact binary encoding unless `?encoding=json` is set for debugging
+  const requestedEncoding = searchParams.get('encoding');
+  // `?spectate=1` joins the room to watch rather than play
+  const spectate = searchParams.get('spectate') === '1';
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
-  const [projectiles, setProjectiles] = useState<Projectile[]>([]);
-  const [gameStarted, setGameStarted] = useState(false);
+  const [map, setMap] = useState<GameMap | null>(null);
+  const [pickups, setPickups] = useState<Pickup[]>([]);
+  const [settings, setSettings] = useState<MatchSettings | null>(null);
+  const [match, setMatch] = useState<GameStartedPayload | null>(null);
+  const [teamScores, setTeamScores] = useState<TeamScores | null>(null);
+  const [flags, setFlags] = useState<Flag[]>([]);
+  const [spectators, setSpectators] = useState<Spectator[]>([]);
+  const [spectating, setSpectating] = useState(false);
+  const [queuedForNextMatch, setQueuedForNextMatch] = useState(false);
+  const [readyIds, setReadyIds] = useState<string[]>([]);
+  const [status, setStatus] = useState<RoomStatus>('waiting');
   const [isCreator, setIsCreator] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentPlayerId, setCurrentPlayerId] = useState<string>('');
   const [isCreatingRoom, setIsCreatingRoom] = useState(false);
   const [roomId, setRoomId] = useState<string>(params.roomId);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [encoding, setEncoding] = useState<WireEncoding>('json');
 
   useEffect(() => {
     if (!username) {
@@ -30,12 +65,15 @@ export default function Game({ params }: { params: { roomId: string } }) {
     if (isConnecting) return;
     setIsConnecting(true);
 
-    const newSocket = io('http://localhost:3001', {
+    const newSocket: GameSocket = io('http://localhost:3001', {
       transports: ['websocket'],
       reconnection: true,
       reconnectionDelay: 1000,
       reconnectionDelayMax: 5000,
-      reconnectionAttempts: 5
+      reconnectionAttempts: 5,
+      auth: {
+        encoding: isWireEncoding(requestedEncoding) ? requestedEncoding : 'binary'
+      }
     });
 
     setSocket(newSocket);
@@ -45,15 +83,15 @@ export default function Game({ params }: { params: { roomId: string } }) {
       if (params.roomId === 'create' && !isCreatingRoom) {
         console.log('[Game] Creating new room');
         setIsCreatingRoom(true);
-        newSocket.emit('createRoom', username);
+        newSocket.emit('createRoom', { username });
       } else if (params.roomId !== 'create') {
         console.log('[Game] Joining room:', params.roomId);
         setRoomId(params.roomId);
-        newSocket.emit('joinRoom', { roomId: params.roomId, username });
+        newSocket.emit('joinRoom', { roomId: params.roomId, username, spectate });
       }
     };
 
-    const handleRoomCreated = ({ roomId: newRoomId, playerId, isCreator }: { roomId: string, playerId: string, isCreator: boolean }) => {
+    const handleRoomCreated = ({ roomId: newRoomId, playerId, isCreator }: RoomCreatedPayload) => {
       console.log('[Game] Room created:', { roomId: newRoomId, playerId, isCreator });
       setCurrentPlayerId(playerId);
       setIsCreator(isCreator);
@@ -65,25 +103,46 @@ export default function Game({ params }: { params: { roomId: string } }) {
       }
     };
 
-    const handleRoomJoined = ({ playerId, players: roomPlayers, isCreator }: { playerId: string, players: Player[], isCreator: boolean }) => {
-      console.log('[Game] Joined room:', { playerId, players: roomPlayers, isCreator });
+    const handleRoomJoined = ({
+      playerId,
+      players: roomPlayers,
+      isCreator,
+      map,
+      settings,
+      status,
+      spectators,
+      spectating,
+      queuedForNextMatch,
+      ready
+    }: RoomJoinedPayload) => {
+      console.log('[Game] Joined room:', { playerId, players: roomPlayers, isCreator, map: map.id, settings, status, spectating });
       setCurrentPlayerId(playerId);
       setPlayers(roomPlayers);
+      setMap(map);
+      setSettings(settings);
+      setStatus(status);
       setIsCreator(isCreator);
+      setSpectators(spectators);
+      setSpectating(spectating);
+      setQueuedForNextMatch(queuedForNextMatch);
+      setReadyIds(ready);
       setIsCreatingRoom(false);
       
       if (typeof window !== 'undefined' && window.history) {
-        const newUrl = `/game/${roomId}?username=${encodeURIComponent(username || '')}`;
+        // Only a spectator by choice stays one on reload; the room may have
+        // made us watch for now
+        const newUrl = `/game/${roomId}?username=${encodeURIComponent(username || '')}${spectate ? '&spectate=1' : ''}`;
         window.history.replaceState({ roomId }, '', newUrl);
       }
     };
 
-    const handleError = (error: string) => {
+    const handleError = (error: GameError) => {
       console.error('[Game] Error:', error);
-      setError(error);
-      if (error === 'Room not found' && !isCreatingRoom) {
+      if (!JOIN_ERRORS.includes(error.code)) return;
+      setError(error.message);
+      if (error.code === 'ROOM_NOT_FOUND' && !isCreatingRoom) {
         // Redirect to home if room not found and we're not in the process of creating one
-        window.location.href = '/?error=' + encodeURIComponent(error);
+        window.location.href = '/?error=' + encodeURIComponent(error.message);
       }
     };
 
@@ -92,63 +151,97 @@ export default function Game({ params }: { params: { roomId: string } }) {
       console.log('[Game] Disconnected from server');
       setIsConnecting(false);
     });
-    newSocket.on('reconnect', () => {
+    newSocket.io.on('reconnect', () => {
       console.log('[Game] Reconnected to server');
       if (params.roomId !== 'create') {
-        newSocket.emit('joinRoom', { roomId: params.roomId, username });
+        newSocket.emit('joinRoom', { roomId: params.roomId, username, spectate });
       }
     });
+    newSocket.on('protocolNegotiated', ({ encoding }) => {
+      console.log('[Game] Using encoding:', encoding);
+      setEncoding(encoding);
+    });
     newSocket.on('roomCreated', handleRoomCreated);
     newSocket.on('roomJoined', handleRoomJoined);
     newSocket.on('error', handleError);
-    newSocket.on('playerJoined', (player: Player) => {
+    newSocket.on('playerJoined', (player) => {
       console.log('[Game] Player joined:', player);
       setPlayers(prev => [...prev, player]);
     });
-    newSocket.on('playerLeft', (playerId: string) => {
+    newSocket.on('playerLeft', (playerId) => {
       console.log('[Game] Player left:', playerId);
       setPlayers(prev => prev.filter(p => p.id !== playerId));
     });
-    newSocket.on('playerUpdated', ({ id, position, rotation }: { id: string, position: Vector2D, rotation: number }) => {
-      console.log('[Game] Player updated:', { id, position, rotation });
-      setPlayers(prev => prev.map(player => 
-        player.id === id 
-          ? { ...player, position, rotation }
-          : player
-      ));
+    newSocket.on('creatorChanged', ({ newCreatorId, players: roomPlayers }) => {
+      console.log('[Game] Creator changed:', newCreatorId);
+      setIsCreator(newCreatorId === newSocket.id);
+      setPlayers(roomPlayers);
     });
-    newSocket.on('projectileCreated', (projectile: Projectile) => {
-      setProjectiles(prev => [...prev, projectile]);
+    newSocket.on('teamChanged', ({ playerId, team }) => {
+      setPlayers(prev => prev.map(p => p.id === playerId ? { ...p, team } : p));
     });
-
-    newSocket.on('projectileUpdated', (updatedProjectiles: Projectile[]) => {
-      setProjectiles(updatedProjectiles);
+    newSocket.on('roomStatusChanged', ({ status, players: roomPlayers, spectators }) => {
+      console.log('[Game] Room status:', status);
+      setStatus(status);
+      setPlayers(roomPlayers);
+      setSpectators(spectators);
+      // Back in the lobby: forget the last match. Late joiners who watched it
+      // are players now.
+      if (status === 'waiting') {
+        setSpectating(!roomPlayers.some(p => p.id === newSocket.id));
+        setQueuedForNextMatch(false);
+        setMatch(null);
+        setTeamScores(null);
+        setFlags([]);
+        setPickups([]);
+      }
     });
-
-    newSocket.on('projectileRemoved', (projectileId: string) => {
-      setProjectiles(prev => prev.filter(p => p.id !== projectileId));
+    newSocket.on('gameStarted', (payload) => {
+      setMatch(payload);
+      setTeamScores(payload.teamScores);
+      setFlags(payload.flags);
     });
+    newSocket.on('teamScoresUpdated', setTeamScores);
+    newSocket.on('pickupsUpdated', setPickups);
+    newSocket.on('spectatorsUpdated', setSpectators);
+    newSocket.on('readyChanged', setReadyIds);
+    // Every flag event carries the full flag state
+    const handleFlagEvent = (payload: FlagEventPayload) => setFlags(payload.flags);
+    newSocket.on('flagTaken', handleFlagEvent);
+    newSocket.on('flagDropped', handleFlagEvent);
+    newSocket.on('flagReturned', handleFlagEvent);
+    newSocket.on('flagCaptured', handleFlagEvent);
 
-    newSocket.on('gameStarted', () => setGameStarted(true));
+    // Answer the server's latency probes immediately
+    newSocket.on('latencyPing', (ack) => ack());
 
     return () => {
       console.log('[Game] Cleaning up socket connection');
       newSocket.off('connect');
       newSocket.off('disconnect');
-      newSocket.off('reconnect');
+      newSocket.io.off('reconnect');
+      newSocket.off('protocolNegotiated');
       newSocket.off('roomCreated');
       newSocket.off('roomJoined');
       newSocket.off('error');
       newSocket.off('playerJoined');
       newSocket.off('playerLeft');
-      newSocket.off('playerUpdated');
-      newSocket.off('projectileCreated');
-      newSocket.off('projectileUpdated');
-      newSocket.off('projectileRemoved');
+      newSocket.off('creatorChanged');
+      newSocket.off('teamChanged');
+      newSocket.off('roomStatusChanged');
       newSocket.off('gameStarted');
+      newSocket.off('teamScoresUpdated');
+      newSocket.off('pickupsUpdated');
+      newSocket.off('spectatorsUpdated');
+      newSocket.off('readyChanged');
+      newSocket.off('flagTaken');
+      newSocket.off('flagDropped');
+      newSocket.off('flagReturned');
+      newSocket.off('flagCaptured');
+      newSocket.off('latencyPing');
       newSocket.close();
     };
-  }, [username, params.roomId, isCreatingRoom]);
+  }, [username, spectate, params.roomId, isCreatingRoom]);
 
   if (!username) {
     return null;
@@ -164,18 +257,42 @@ export default function Game({ params }: { params: { roomId: string } }) {
     );
   }
 
-  return gameStarted ? (
+  // The lobby until a match is under way, then the match until the room
+  // returns to the lobby
+  const inMatch = status !== 'waiting' && status !== 'countdown';
+
+  return inMatch && socket && map && match ? (
     <GameCanvas
       socket={socket}
       players={players}
-      projectiles={projectiles}
       roomId={roomId}
       currentPlayerId={currentPlayerId}
-      onUpdatePlayer={(position, rotation) => {
-        socket?.emit('updatePlayer', { roomId, position, rotation });
+      map={map}
+      pickups={pickups}
+      match={match}
+      teamScores={teamScores}
+      flags={flags}
+      spectating={spectating}
+      queuedForNextMatch={queuedForNextMatch}
+      isCreator={isCreator}
+      onInput={(input) => {
+        if (encoding === 'binary') {
+          socket.emit('playerInputBinary', encodePlayerInput(input));
+        } else {
+          socket.emit('playerInput', { roomId, input });
+        }
+      }}
+      onShoot={(position, angle, tick) => {
+        socket.emit('shoot', { roomId, position, angle, tick });
+      }}
+      onSwitchWeapon={(weapon) => {
+        socket.emit('switchWeapon', { roomId, weapon });
+      }}
+      onReload={() => {
+        socket.emit('reload', { roomId });
       }}
-      onShoot={(position, angle) => {
-        socket?.emit('shoot', { roomId, position, angle });
+      onPlayAgain={() => {
+        socket.emit('playAgain', roomId);
       }}
     />
   ) : (
@@ -184,7 +301,10 @@ export default function Game({ params }: { params: { roomId: string } }) {
       socket={socket}
       username={username}
       players={players}
+      spectators={spectators}
+      readyIds={readyIds}
       isCreator={isCreator}
+      settings={settings}
     />
   );
 }
@@ -1,18 +1,20 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
 import { useRouter } from 'next/navigation';
+import { GameError, GameSocket } from '@/types/events';
 
 export default function JoinRoom() {
   const [username, setUsername] = useState('');
   const [roomId, setRoomId] = useState('');
+  const [spectate, setSpectate] = useState(false);
   const [error, setError] = useState('');
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const router = useRouter();
 
   useEffect(() => {
-    const newSocket = io('http://localhost:3001', {
+    const newSocket: GameSocket = io('http://localhost:3001', {
       transports: ['websocket'],
       reconnection: true
     });
@@ -37,19 +39,15 @@ export default function JoinRoom() {
   useEffect(() => {
     if (!socket) return;
 
-    const handleError = (message: string) => {
-      console.error('[JoinRoom] Socket error:', message);
-      setError(message);
+    const handleError = (error: GameError) => {
+      console.error('[JoinRoom] Socket error:', error);
+      setError(error.message);
     };
 
     socket.on('error', handleError);
-    socket.on('roomNotFound', () => handleError('Room not found'));
-    socket.on('roomFull', () => handleError('Room is full'));
 
     return () => {
-      socket.off('error');
-      socket.off('roomNotFound');
-      socket.off('roomFull');
+      socket.off('error', handleError);
     };
   }, [socket]);
 
@@ -85,13 +83,14 @@ export default function JoinRoom() {
         socket.once('roomJoined', () => {
           clearTimeout(timeout);
           console.log('[JoinRoom] Successfully joined room. Redirecting...');
-          router.push(`/game/${trimmedRoomId}?username=${encodeURIComponent(trimmedUsername)}`);
+          router.push(`/game/${trimmedRoomId}?username=${encodeURIComponent(trimmedUsername)}${spectate ? '&spectate=1' : ''}`);
           resolve();
         });
 
         socket.emit('joinRoom', { 
           roomId: trimmedRoomId, 
-          username: trimmedUsername 
+          username: trimmedUsername,
+          spectate
         });
       });
     } catch (error) {
@@ -137,6 +136,15 @@ export default function JoinRoom() {
             />
           </div>
 
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={spectate}
+              onChange={(e) => setSpectate(e.target.checked)}
+            />
+            Join as a spectator
+          </label>
+
           {error && (
             <p className="text-sm text-red-500">{error}</p>
           )}
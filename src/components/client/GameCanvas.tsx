@@ -1,176 +1,419 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { Player, Vector2D, Projectile, Socket } from '@/types/game';
+import { useEffect, useRef, useState } from 'react';
 import {
+  Flag,
+  GameMap,
+  HillState,
+  Pickup,
+  PickupType,
+  Player,
+  PowerUpType,
+  RoundState,
+  SafeZone,
+  Vector2D,
+  PlayerInput
+} from '@/types/game';
+import {
+  GameError,
+  GameOverPayload,
+  GameSocket,
+  GameStartedPayload,
+  PlayerDiedPayload,
+  PlayerRespawnedPayload,
+  RoundEndedPayload,
+  RoundStartedPayload
+} from '@/types/events';
+import {
+  MAX_ARMOR,
   PLAYER_RADIUS,
   PROJECTILE_RADIUS,
-  PLAYER_SPEED,
-  MAP_WIDTH,
-  MAP_HEIGHT,
-  FIRE_RATE,
-  movePlayer,
+  TICK_INTERVAL,
+  TICK_DT,
   calculateGunPosition,
-  vectorAdd,
-  vectorMultiply,
-  vectorNormalize
+  isPlayerAlive,
+  vectorAdd
 } from '@/game/engine';
+import { step } from '@/game/simulation';
+import { addPendingInput, decayCorrection, reconcile } from '@/game/prediction';
+import {
+  SnapshotBuffer,
+  SNAPSHOT_HISTORY,
+  createServerClock,
+  getRenderTime,
+  getServerTime,
+  pushSample,
+  sampleEntity,
+  tickToTime,
+  updateServerClock
+} from '@/game/interpolation';
+import { SNAPSHOT_VERSION, WorldSnapshot, WorldState, applyWorldSnapshot } from '@/game/snapshot';
+import { ProtocolError, createDecoderState, decodeWorldSnapshot } from '@/game/protocol';
+import { DEFAULT_WEAPON, WEAPONS, WEAPON_IDS, WeaponId } from '@/game/weapons';
+import { PICKUPS, PICKUP_RADIUS, getFireInterval } from '@/game/pickups';
+import {
+  GAME_MODES,
+  PlayerScore,
+  TEAMS,
+  TEAM_IDS,
+  TeamId,
+  TeamScores,
+  getRoundsToWin,
+  rankPlayers
+} from '@/game/modes';
+import { FLAG_RADIUS, getFlagBases } from '@/game/flags';
+import { HILL_POINT_TICKS, HILL_RADIUS } from '@/game/hill';
+import { getZoneCircle, isOutsideZone } from '@/game/safeZone';
+import { drawFlag, drawMap } from './drawMap';
+
+// Length of the projectile trail, in pixels
+const PROJECTILE_TRAIL_LENGTH = 20;
+
+// How each weapon's barrel is drawn; lengths are in player radii
+const WEAPON_STYLES: Record<WeaponId, { length: number; width: number; color: string }> = {
+  pistol: { length: 1.5, width: 3, color: '#fff' },
+  shotgun: { length: 1.4, width: 6, color: '#d4a373' },
+  rifle: { length: 1.9, width: 3, color: '#9ccc65' },
+  sniper: { length: 2.4, width: 2, color: '#90caf9' }
+};
 
-const MOVEMENT_THRESHOLD = 0.1;
+// Tint over the area outside the safe zone
+const ZONE_OUTSIDE_COLOR = 'rgba(33, 150, 243, 0.2)';
+
+// Spectator camera zoom, and how fast the free camera pans in pixels per second
+const SPECTATOR_ZOOM = 1.5;
+const FREE_CAMERA_SPEED = 400;
+
+// Players listed on the in-game scoreboard
+const SCOREBOARD_ROWS = 5;
+
+// How each pickup is drawn: a colored disc with a letter on it
+const PICKUP_STYLES: Record<PickupType, { color: string; label: string }> = {
+  health: { color: '#e53935', label: '+' },
+  ammo: { color: '#fbc02d', label: 'A' },
+  armor: { color: '#42a5f5', label: 'S' },
+  speed: { color: '#26c6da', label: 'F' },
+  damage: { color: '#ab47bc', label: 'D' },
+  rapidFire: { color: '#ff7043', label: 'R' }
+};
+
+// The living player after `currentId` in `direction`, wrapping around; the
+// first one when `currentId` isn't alive, and null when nobody is
+const cycleTarget = (players: Player[], currentId: string | null, direction: 1 | -1): string | null => {
+  const alive = players.filter(isPlayerAlive);
+  if (alive.length === 0) return null;
+  const index = alive.findIndex(p => p.id === currentId);
+  if (index === -1) return alive[0].id;
+  return alive[(index + direction + alive.length) % alive.length].id;
+};
+
+// Standings ordered by rounds won, most first; the sort keeps ties in rank order
+const sortByRoundWins = (standings: PlayerScore[], rounds: RoundState): PlayerScore[] =>
+  [...standings].sort((a, b) => (rounds.wins[b.id] || 0) - (rounds.wins[a.id] || 0));
 
 interface GameCanvasProps {
-  socket: Socket;
+  socket: GameSocket;
   players: Player[];
-  projectiles: Projectile[];
   roomId: string;
   currentPlayerId: string;
-  onUpdatePlayer: (position: Vector2D, rotation: number) => void;
-  onShoot: (position: Vector2D, angle: number) => void;
+  map: GameMap;
+  pickups: Pickup[];
+  match: GameStartedPayload;
+  teamScores: TeamScores | null;
+  flags: Flag[];
+  // Whether we joined the room to watch rather than play
+  spectating: boolean;
+  // Whether the room made us watch the running match, to play the next one
+  queuedForNextMatch: boolean;
+  // Only the room creator can start another match once this one is over
+  isCreator: boolean;
+  onInput: (input: PlayerInput) => void;
+  // `tick` is the server tick the player was looking at, for lag compensation
+  onShoot: (position: Vector2D, angle: number, tick?: number) => void;
+  onSwitchWeapon: (weapon: WeaponId) => void;
+  onReload: () => void;
+  onPlayAgain: () => void;
 }
 
 export default function GameCanvas({ 
   socket, 
   players, 
-  projectiles = [], 
   roomId, 
   currentPlayerId, 
-  onUpdatePlayer, 
-  onShoot 
+  map,
+  pickups,
+  match,
+  teamScores,
+  flags,
+  spectating: joinedAsSpectator,
+  queuedForNextMatch,
+  isCreator,
+  onInput, 
+  onShoot,
+  onSwitchWeapon,
+  onReload,
+  onPlayAgain
 }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const keysPressed = useRef<Set<string>>(new Set());
   const mousePosition = useRef<Vector2D>({ x: 0, y: 0 });
   const shooting = useRef(false);
-  const lastShot = useRef(0);
-  const projectilesRef = useRef<Projectile[]>([]);
-  const lastUpdateTime = useRef(0);
-  const previousState = useRef<{ position: Vector2D; rotation: number } | null>(null);
+  // Earliest time the next shot may be fired, set by the weapon that last fired
+  const nextShotTime = useRef(0);
+  const playerSnapshots = useRef<SnapshotBuffer>(new Map());
+  const projectileSnapshots = useRef<SnapshotBuffer>(new Map());
+  const projectileRemovals = useRef<Map<string, number>>(new Map());
+  const serverClock = useRef(createServerClock());
+  const receivedWorlds = useRef<Map<number, WorldState>>(new Map());
+  const latestTick = useRef(-1);
+  const decoderState = useRef(createDecoderState());
+  const inputAccumulator = useRef(0);
+  const inputSequence = useRef(0);
+  const pendingInputs = useRef<PlayerInput[]>([]);
+  const correctionOffset = useRef<Vector2D>({ x: 0, y: 0 });
   const playersRef = useRef<Player[]>(players);
+  // Read by the render loop, which outlives any single render of this component
+  const pickupsRef = useRef<Pickup[]>(pickups);
+  pickupsRef.current = pickups;
+  const teamScoresRef = useRef<TeamScores | null>(teamScores);
+  teamScoresRef.current = teamScores;
+  const flagsRef = useRef<Flag[]>(flags);
+  flagsRef.current = flags;
+  // Latest hill and safe zone state from the world snapshots
+  const hillRef = useRef<HillState | null>(null);
+  const zoneRef = useRef<SafeZone | null>(null);
+  // Equipped weapon, switched locally without waiting for the server
+  const weaponRef = useRef<WeaponId>(DEFAULT_WEAPON);
+  const [weapon, setWeapon] = useState<WeaponId>(DEFAULT_WEAPON);
+  // Who killed us and when we come back, while waiting to respawn
+  const death = useRef<{ killerUsername: string; respawnTick: number } | null>(null);
+  // Who knocked us out of the match, once we are watching it
+  const eliminatedBy = useRef<string | null>(null);
+  // Late joiners in modes without respawns watch until the next round
+  const [spectating, setSpectating] = useState(
+    joinedAsSpectator || !players.some(p => p.id === currentPlayerId)
+  );
+  // Spectator camera: the living player it follows, or a free camera panned
+  // with WASD
+  const camera = useRef<{ free: boolean; targetId: string | null; position: Vector2D }>({
+    free: false,
+    targetId: null,
+    position: { x: map.width / 2, y: map.height / 2 }
+  });
   const [gameOver, setGameOver] = useState(false);
-  const [winner, setWinner] = useState<string>('');
-
-  // Helper function to check if enough time has passed since last update
-  const canUpdate = useCallback(() => {
-    const now = performance.now();
-    const timeSinceLastUpdate = now - lastUpdateTime.current;
-    if (timeSinceLastUpdate > 50) {  // 20 updates per second
-      lastUpdateTime.current = now;
-      return true;
-    }
-    return false;
-  }, []);
-
-  // Helper function to check if state has changed significantly
-  const hasStateChanged = useCallback((newPos: Vector2D, newRot: number) => {
-    if (!previousState.current) return true;
-    
-    const posChanged = Math.abs(newPos.x - previousState.current.position.x) > 1 ||
-                      Math.abs(newPos.y - previousState.current.position.y) > 1;
-    const rotChanged = Math.abs(newRot - previousState.current.rotation) > 0.1;
-    
-    return posChanged || rotChanged;
-  }, []);
-
-  useEffect(() => {
-    playersRef.current = players;
-  }, [players]);
+  // The game loop stops once the match is over
+  const gameOverRef = useRef(false);
+  // The page's handlers change on every one of its renders; the game loop
+  // and socket listeners read the latest ones rather than restarting
+  const handlers = useRef({ onInput, onShoot, onSwitchWeapon, onReload });
+  handlers.current = { onInput, onShoot, onSwitchWeapon, onReload };
+  const [result, setResult] = useState<GameOverPayload | null>(null);
+  // Progress through a best-of match, and when the current round runs out of time
+  const roundsRef = useRef<RoundState | null>(match.rounds);
+  const endTickRef = useRef<number | null>(match.endTick);
+  // The last round's result during the break before the next one, which we
+  // may have joined in the middle of
+  const intermission = useRef(match.roundResult !== null);
+  const [roundResult, setRoundResult] = useState<RoundEndedPayload | null>(match.roundResult);
+  const [nextRoundIn, setNextRoundIn] = useState(0);
+  // Last error from the server, until dismissed; the match carries on
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     // Set canvas size
-    canvas.width = MAP_WIDTH;
-    canvas.height = MAP_HEIGHT;
+    canvas.width = map.width;
+    canvas.height = map.height;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Listen for player updates
-    socket.on('playerUpdated', ({ playerId, position, rotation, health }: { 
-      playerId: string, 
-      position?: Vector2D, 
-      rotation?: number, 
-      health?: number 
-    }) => {
-      // Ignore position/rotation updates for our own player (we handle these locally)
-      if (playerId === currentPlayerId && !health) {
+    // Apply world snapshots: rebuild the full state from the delta, acknowledge
+    // it, then feed it to reconciliation and interpolation
+    const handleWorldSnapshot = (snapshot: WorldSnapshot) => {
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        console.error('Unsupported snapshot version:', snapshot.version);
         return;
       }
+      if (snapshot.tick <= latestTick.current) return;
 
-      // Find the player to update
-      const playerIndex = playersRef.current.findIndex(p => p.id === playerId);
-      if (playerIndex === -1) return;
-
-      // Create updated player object
-      const updatedPlayer = { ...playersRef.current[playerIndex] };
-      let hasChanges = false;
-
-      // Only apply position/rotation updates for other players
-      if (playerId !== currentPlayerId) {
-        if (position) {
-          updatedPlayer.position = position;
-          hasChanges = true;
-        }
-        if (typeof rotation === 'number') {
-          updatedPlayer.rotation = rotation;
-          hasChanges = true;
+      let base: WorldState | null = null;
+      if (snapshot.baseTick !== null) {
+        base = receivedWorlds.current.get(snapshot.baseTick) || null;
+        if (!base) {
+          // We no longer have the state this delta builds on
+          socket.emit('requestKeyframe', { roomId });
+          return;
         }
       }
 
-      // Always apply health updates
-      if (typeof health === 'number') {
-        updatedPlayer.health = health;
-        hasChanges = true;
+      const world = applyWorldSnapshot(base, snapshot);
+      latestTick.current = world.tick;
+      receivedWorlds.current.set(world.tick, world);
+      for (const tick of receivedWorlds.current.keys()) {
+        if (tickToTime(world.tick - tick) > SNAPSHOT_HISTORY) {
+          receivedWorlds.current.delete(tick);
+        }
       }
+      socket.emit('snapshotAck', { roomId, tick: world.tick });
+      hillRef.current = world.hill;
+      zoneRef.current = world.zone;
 
-      if (hasChanges) {
-        const updatedPlayers = [...playersRef.current];
-        updatedPlayers[playerIndex] = updatedPlayer;
-        playersRef.current = updatedPlayers;
+      const time = tickToTime(world.tick);
+      updateServerClock(serverClock.current, time, performance.now());
 
-        // Only call onUpdatePlayer for health changes to our own player
-        if (playerId === currentPlayerId && typeof health === 'number') {
-          onUpdatePlayer(updatedPlayer.position, updatedPlayer.rotation);
+      // Players: buffer remote ones for interpolation, reconcile our own
+      const worldPlayers = Object.values(world.players);
+      const predicted = playersRef.current.find(p => p.id === currentPlayerId);
+      playersRef.current = worldPlayers.map(player => {
+        if (player.id !== currentPlayerId) {
+          pushSample(playerSnapshots.current, player.id, {
+            time,
+            position: player.position,
+            rotation: player.rotation
+          });
+          return player;
         }
+        if (!predicted) return player;
+
+        const result = reconcile(
+          { ...player, position: predicted.position, rotation: predicted.rotation },
+          player.position,
+          snapshot.lastProcessedInput,
+          pendingInputs.current,
+          worldPlayers,
+          map
+        );
+        pendingInputs.current = result.pendingInputs;
+        correctionOffset.current = vectorAdd(correctionOffset.current, result.correction);
+        return result.player;
+      });
+      snapshot.removedPlayers.forEach(playerId => playerSnapshots.current.delete(playerId));
+
+      // Projectiles: keep rendering removed ones until the render clock reaches
+      // the tick they disappeared on
+      Object.values(world.projectiles).forEach(projectile => {
+        pushSample(projectileSnapshots.current, projectile.id, {
+          time,
+          position: projectile.position,
+          rotation: Math.atan2(projectile.velocity.y, projectile.velocity.x)
+        });
+      });
+      snapshot.removedProjectiles.forEach(projectileId => {
+        projectileRemovals.current.set(projectileId, time);
+      });
+    };
+
+    const handleWorldSnapshotBinary = (data: ArrayBuffer | Uint8Array) => {
+      let snapshot: WorldSnapshot;
+      try {
+        snapshot = decodeWorldSnapshot(data, decoderState.current);
+      } catch (error) {
+        if (!(error instanceof ProtocolError)) throw error;
+        console.error('Failed to decode snapshot:', error.message);
+        socket.emit('requestKeyframe', { roomId });
+        return;
       }
-    });
+      handleWorldSnapshot(snapshot);
+    };
 
     // Listen for player death
-    socket.on('playerDied', ({ playerId, killerUsername }: { playerId: string, killerUsername: string }) => {
-      console.log('Player died:', { playerId, killerUsername });
-      if (playerId === currentPlayerId) {
-        setGameOver(true);
-        setWinner(killerUsername);
+    const handlePlayerDied = ({ playerId, killerUsername, respawnTick }: PlayerDiedPayload) => {
+      console.log('Player died:', { playerId, killerUsername, respawnTick });
+      if (playerId !== currentPlayerId) return;
+      if (respawnTick === undefined) {
+        // Out of the match: watch it from whoever got us
+        eliminatedBy.current = killerUsername;
+        camera.current.targetId = playersRef.current.find(p => p.username === killerUsername)?.id || null;
+        setSpectating(true);
+      } else {
+        death.current = { killerUsername, respawnTick };
       }
-    });
+    };
+
+    // A respawn is a teleport: drop our prediction state rather than smoothing
+    // the correction, and restart interpolation for remote players
+    const handlePlayerRespawned = ({ playerId, position }: PlayerRespawnedPayload) => {
+      if (playerId !== currentPlayerId) {
+        playerSnapshots.current.delete(playerId);
+        return;
+      }
+      death.current = null;
+      pendingInputs.current = [];
+      correctionOffset.current = { x: 0, y: 0 };
+      playersRef.current = playersRef.current.map(p => p.id === playerId ? { ...p, position } : p);
+    };
+
+    // Between rounds the world stands still until the next one starts
+    const handleRoundEnded = (payload: RoundEndedPayload) => {
+      console.log('Round ended:', payload);
+      roundsRef.current = payload.rounds;
+      intermission.current = true;
+      setRoundResult(payload);
+    };
+
+    // Everyone plays the new round, including us if we were knocked out
+    const handleRoundStarted = ({ rounds, endTick }: RoundStartedPayload) => {
+      roundsRef.current = rounds;
+      endTickRef.current = endTick;
+      intermission.current = false;
+      eliminatedBy.current = null;
+      setSpectating(joinedAsSpectator);
+      setRoundResult(null);
+    };
 
     // Listen for game over
-    socket.on('gameOver', ({ winnerUsername, winnerId }: { winnerUsername: string, winnerId: string }) => {
-      console.log('Game over:', { winnerUsername, winnerId });
+    const handleGameOver = (payload: GameOverPayload) => {
+      console.log('Game over:', payload);
+      gameOverRef.current = true;
       setGameOver(true);
-      setWinner(winnerUsername);
-    });
+      setResult(payload);
+    };
 
-    // Listen for projectile hits
-    socket.on('projectileHit', ({ projectileId, playerId, damage }: { projectileId: string; playerId?: string; damage?: number }) => {
-      console.log('Projectile hit:', { projectileId, playerId, damage });
-      projectilesRef.current = projectilesRef.current.filter(p => p.id !== projectileId);
-    });
-
-    // Listen for projectile updates
-    socket.on('projectilesUpdate', (updatedProjectiles: Projectile[]) => {
-      console.log('Received projectile update:', updatedProjectiles);
-      projectilesRef.current = updatedProjectiles;
-    });
+    socket.on('worldSnapshot', handleWorldSnapshot);
+    socket.on('worldSnapshotBinary', handleWorldSnapshotBinary);
+    socket.on('playerDied', handlePlayerDied);
+    socket.on('playerRespawned', handlePlayerRespawned);
+    socket.on('roundEnded', handleRoundEnded);
+    socket.on('roundStarted', handleRoundStarted);
+    socket.on('gameOver', handleGameOver);
+    // Snapshots sent before we were listening are lost
+    socket.emit('requestKeyframe', { roomId });
 
     const handleKeyDown = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
       keysPressed.current.add(key);
+
+      // Spectators cycle the camera between living players, or free it
+      if (isSpectating()) {
+        if (key === 'q' || key === 'e') {
+          camera.current.free = false;
+          camera.current.targetId = cycleTarget(playersRef.current, camera.current.targetId, key === 'e' ? 1 : -1);
+        }
+        if (key === 'f') camera.current.free = true;
+        return;
+      }
+
       if (key === ' ') {
         shooting.current = true;
         console.log('Space pressed - shooting enabled');
       }
+
+      // Number keys pick a weapon slot while we're alive and a round is on,
+      // as the server only switches weapons then
+      const self = playersRef.current.find(p => p.id === currentPlayerId);
+      const slot = WEAPON_IDS[Number(key) - 1];
+      if (slot && slot !== weaponRef.current && self && isPlayerAlive(self) && !intermission.current) {
+        weaponRef.current = slot;
+        setWeapon(slot);
+        handlers.current.onSwitchWeapon(slot);
+      }
+
+      if (key === 'r' && !e.repeat) {
+        handlers.current.onReload();
+      }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
@@ -178,7 +421,6 @@ export default function GameCanvas({
       keysPressed.current.delete(key);
       if (key === ' ') {
         shooting.current = false;
-        lastShot.current = 0; // Reset last shot time when releasing space
         console.log('Space released - shooting disabled');
       }
     };
@@ -199,11 +441,26 @@ export default function GameCanvas({
     let lastTime = performance.now();
     const gameLoop = () => {
       const currentTime = performance.now();
-      const deltaTime = (currentTime - lastTime) / 1000; // Convert to seconds
-      lastTime = currentTime;
+
+      // Smooth out any pending reconciliation correction
+      correctionOffset.current = decayCorrection(
+        correctionOffset.current,
+        (currentTime - lastTime) / 1000
+      );
 
       const currentPlayer = playersRef.current.find(p => p.id === currentPlayerId);
-      if (!currentPlayer || gameOver) return;
+      if (gameOverRef.current) return;
+
+      // Spectating, or waiting for the next round: nothing to control, so
+      // just keep drawing, moving the camera if we have no player
+      if (!currentPlayer || intermission.current) {
+        if (!currentPlayer) updateCamera((currentTime - lastTime) / 1000, currentTime);
+        lastTime = currentTime;
+        render();
+        renderHud(currentPlayer || null, currentTime);
+        animationFrameId = requestAnimationFrame(gameLoop);
+        return;
+      }
 
       let dx = 0;
       let dy = 0;
@@ -233,74 +490,62 @@ export default function GameCanvas({
         playersRef.current = updatedPlayers;
       }
 
-      // Process movement if there's input
-      if (dx !== 0 || dy !== 0) {
-        // Normalize diagonal movement
-        const movement = vectorNormalize({ x: dx, y: dy });
-        
-        // Apply constant movement speed
-        const scaledMovement = vectorMultiply(movement, PLAYER_SPEED / 60);
-
-        // Calculate new position with collision detection
-        const newPosition = movePlayer(
-          currentPlayer.position,
-          scaledMovement,
-          playersRef.current,
-          currentPlayerId
-        );
-
-        // Update local position immediately
-        if (currentPlayerIndex !== -1) {
-          updatedPlayers[currentPlayerIndex] = {
-            ...updatedPlayers[currentPlayerIndex],
-            position: newPosition
-          };
-          playersRef.current = updatedPlayers;
-        }
-
-        // Only send update if position or rotation has changed significantly
-        if (canUpdate() && hasStateChanged(newPosition, currentRotation)) {
-          previousState.current = {
-            position: { ...newPosition },
-            rotation: currentRotation
-          };
-
-          socket.emit('updatePlayer', {
-            roomId,
-            position: newPosition,
-            rotation: currentRotation
-          });
-        }
-      } else if (canUpdate() && hasStateChanged(currentPlayer.position, currentRotation)) {
-        // If not moving but rotation changed significantly, send rotation update
-        previousState.current = {
-          position: { ...currentPlayer.position },
+      // Sample input at the server's simulation rate, predict it with the shared
+      // simulation and send it to the server. The accumulator is capped so a
+      // backgrounded tab doesn't flood the server when it comes back.
+      inputAccumulator.current = Math.min(
+        inputAccumulator.current + currentTime - lastTime,
+        TICK_INTERVAL * 5
+      );
+      lastTime = currentTime;
+      while (inputAccumulator.current >= TICK_INTERVAL) {
+        inputAccumulator.current -= TICK_INTERVAL;
+        inputSequence.current += 1;
+        const input: PlayerInput = {
+          seq: inputSequence.current,
+          up: dy < 0,
+          down: dy > 0,
+          left: dx < 0,
+          right: dx > 0,
           rotation: currentRotation
         };
 
-        socket.emit('updatePlayer', {
-          roomId,
-          position: currentPlayer.position,
-          rotation: currentRotation
-        });
+        const { state } = step(
+          { players: playersRef.current, projectiles: [], map },
+          { [currentPlayerId]: input },
+          TICK_DT
+        );
+        playersRef.current = state.players;
+        pendingInputs.current = addPendingInput(pendingInputs.current, input);
+        handlers.current.onInput(input);
       }
 
-      // Handle shooting
-      if (shooting.current && currentTime - lastShot.current >= FIRE_RATE) {
-        lastShot.current = currentTime;
+      // Handle shooting. Ammo comes from the last snapshot, so the server may
+      // still refuse a shot or two fired just before it saw the magazine empty.
+      const ammo = currentPlayer.ammo[weaponRef.current];
+      const reloading = currentPlayer.reload?.weapon === weaponRef.current;
+      if (shooting.current && isPlayerAlive(currentPlayer) && !reloading && ammo.magazine > 0 &&
+          currentTime >= nextShotTime.current) {
+        nextShotTime.current = currentTime + getFireInterval(currentPlayer, weaponRef.current);
         const gunPos = calculateGunPosition(currentPlayer.position, currentPlayer.rotation);
-        onShoot(gunPos, currentPlayer.rotation);
+        const renderTime = getRenderTime(serverClock.current, currentTime);
+        handlers.current.onShoot(
+          gunPos,
+          currentPlayer.rotation,
+          renderTime === null ? undefined : Math.floor(renderTime / TICK_INTERVAL)
+        );
       }
 
       // Render game
       render();
+      renderHud(currentPlayer, currentTime);
 
       // Request next frame
-      requestAnimationFrame(gameLoop);
+      animationFrameId = requestAnimationFrame(gameLoop);
     };
 
     // Start the game loop
-    const animationFrameId = requestAnimationFrame(gameLoop);
+    let animationFrameId = requestAnimationFrame(gameLoop);
 
     // Cleanup function
     return () => {
@@ -308,13 +553,71 @@ export default function GameCanvas({
       window.removeEventListener('keyup', handleKeyUp);
       canvas.removeEventListener('mousemove', handleMouseMove);
       cancelAnimationFrame(animationFrameId);
-      socket.off('playerUpdated');
-      socket.off('playerDied');
-      socket.off('gameOver');
-      socket.off('projectileHit');
-      socket.off('projectilesUpdate');
+      socket.off('worldSnapshot', handleWorldSnapshot);
+      socket.off('worldSnapshotBinary', handleWorldSnapshotBinary);
+      socket.off('playerDied', handlePlayerDied);
+      socket.off('playerRespawned', handlePlayerRespawned);
+      socket.off('roundEnded', handleRoundEnded);
+      socket.off('roundStarted', handleRoundStarted);
+      socket.off('gameOver', handleGameOver);
+    };
+  }, [socket, currentPlayerId, map]);
+
+  useEffect(() => {
+    const handleError = (error: GameError) => {
+      setError(error.message);
+    };
+    socket.on('error', handleError);
+
+    return () => {
+      socket.off('error', handleError);
     };
-  }, [players, currentPlayerId, gameOver, onUpdatePlayer, onShoot]);
+  }, [socket]);
+
+  // Count down to the next round while the round summary is up
+  useEffect(() => {
+    if (!roundResult) return;
+    const update = () => {
+      const serverTime = getServerTime(serverClock.current, performance.now());
+      const remaining = serverTime === null ? 0 : tickToTime(roundResult.nextRoundTick) - serverTime;
+      setNextRoundIn(Math.max(0, Math.ceil(remaining / 1000)));
+    };
+    update();
+    const timer = setInterval(update, 250);
+    return () => clearInterval(timer);
+  }, [roundResult]);
+
+  const isSpectating = () => !playersRef.current.some(p => p.id === currentPlayerId);
+
+  // Follow the camera's target, moving on to another living player when it
+  // dies or leaves, or pan the free camera; the view stays inside the map
+  const updateCamera = (dt: number, currentTime: number) => {
+    const view = camera.current;
+    if (view.free) {
+      const dx = Number(keysPressed.current.has('d')) - Number(keysPressed.current.has('a'));
+      const dy = Number(keysPressed.current.has('s')) - Number(keysPressed.current.has('w'));
+      view.position = {
+        x: view.position.x + dx * FREE_CAMERA_SPEED * dt,
+        y: view.position.y + dy * FREE_CAMERA_SPEED * dt
+      };
+    } else {
+      if (!playersRef.current.some(p => p.id === view.targetId && isPlayerAlive(p))) {
+        view.targetId = cycleTarget(playersRef.current, view.targetId, 1);
+      }
+      const renderTime = getRenderTime(serverClock.current, currentTime);
+      const sample = view.targetId !== null && renderTime !== null
+        ? sampleEntity(playerSnapshots.current.get(view.targetId), renderTime)
+        : null;
+      if (sample) view.position = sample.position;
+    }
+
+    const halfWidth = map.width / 2 / SPECTATOR_ZOOM;
+    const halfHeight = map.height / 2 / SPECTATOR_ZOOM;
+    view.position = {
+      x: Math.max(halfWidth, Math.min(map.width - halfWidth, view.position.x)),
+      y: Math.max(halfHeight, Math.min(map.height - halfHeight, view.position.y))
+    };
+  };
 
   const render = () => {
     const canvas = canvasRef.current;
@@ -323,36 +626,141 @@ export default function GameCanvas({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear canvas
-    ctx.fillStyle = '#1a1a1a';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Spectators see the world through their camera
+    if (isSpectating()) {
+      const { position } = camera.current;
+      ctx.setTransform(
+        SPECTATOR_ZOOM,
+        0,
+        0,
+        SPECTATOR_ZOOM,
+        map.width / 2 - position.x * SPECTATOR_ZOOM,
+        map.height / 2 - position.y * SPECTATOR_ZOOM
+      );
+    } else {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+
+    drawMap(ctx, map);
+
+    // Draw pickups that can currently be collected
+    pickupsRef.current.forEach(pickup => {
+      if (pickup.respawnTick !== null) return;
+      const style = PICKUP_STYLES[pickup.type];
+      ctx.beginPath();
+      ctx.fillStyle = style.color;
+      ctx.arc(pickup.position.x, pickup.position.y, PICKUP_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#fff';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.font = 'bold 14px Arial';
+      ctx.fillText(style.label, pickup.position.x, pickup.position.y);
+      ctx.textBaseline = 'alphabetic';
+    });
 
-    // Draw grid
-    ctx.strokeStyle = '#333';
-    ctx.lineWidth = 1;
-    const gridSize = 50;
-    for (let x = 0; x < canvas.width; x += gridSize) {
+    // Draw the safe zone as it is now, tinting everything outside it, and
+    // outline where it shrinks to next
+    const zone = zoneRef.current;
+    const serverTime = getServerTime(serverClock.current, performance.now());
+    if (zone && serverTime !== null) {
+      const circle = getZoneCircle(zone, serverTime / TICK_INTERVAL);
       ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, canvas.height);
+      ctx.rect(0, 0, map.width, map.height);
+      ctx.arc(circle.center.x, circle.center.y, circle.radius, 0, Math.PI * 2);
+      ctx.fillStyle = ZONE_OUTSIDE_COLOR;
+      ctx.fill('evenodd');
+      ctx.beginPath();
+      ctx.strokeStyle = '#2196F3';
+      ctx.lineWidth = 3;
+      ctx.arc(circle.center.x, circle.center.y, circle.radius, 0, Math.PI * 2);
       ctx.stroke();
+
+      if (zone.shrinkStartTick !== null) {
+        ctx.beginPath();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([8, 6]);
+        ctx.arc(zone.targetCenter.x, zone.targetCenter.y, zone.targetRadius, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
     }
-    for (let y = 0; y < canvas.height; y += gridSize) {
+
+    // Draw the hill tinted by whoever holds it, with their progress toward
+    // the next point around the edge
+    const hill = hillRef.current;
+    if (hill) {
+      const color = getHillColor(hill);
       ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(canvas.width, y);
+      ctx.fillStyle = `${color}33`;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.arc(hill.position.x, hill.position.y, HILL_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
       ctx.stroke();
+      if (hill.progress > 0) {
+        ctx.beginPath();
+        ctx.lineWidth = 5;
+        ctx.arc(
+          hill.position.x,
+          hill.position.y,
+          HILL_RADIUS,
+          -Math.PI / 2,
+          -Math.PI / 2 + Math.PI * 2 * hill.progress / HILL_POINT_TICKS
+        );
+        ctx.stroke();
+      }
     }
 
-    // Draw all players
-    playersRef.current.forEach(player => {
-      const isCurrentPlayer = player.id === currentPlayerId;
+    // Draw the flag bases as rings in the team colors
+    const flagBases = flagsRef.current.length > 0 ? getFlagBases(map) : null;
+    if (flagBases) {
+      for (const team of TEAM_IDS) {
+        const base = flagBases[team];
+        ctx.beginPath();
+        ctx.strokeStyle = TEAMS[team].color;
+        ctx.lineWidth = 3;
+        ctx.arc(base.x, base.y, FLAG_RADIUS * 1.5, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    // Remote entities are drawn slightly in the past, interpolated between snapshots
+    const renderTime = getRenderTime(serverClock.current, performance.now());
+    // Where each player was drawn, so carried flags move with them
+    const drawnPositions = new Map<string, Vector2D>();
+
+    // Draw all players, offsetting our own by the correction still being smoothed
+    playersRef.current.forEach(statePlayer => {
+      if (!isPlayerAlive(statePlayer)) return;
+      const isCurrentPlayer = statePlayer.id === currentPlayerId;
+      let player = statePlayer;
+      if (isCurrentPlayer) {
+        player = {
+          ...statePlayer,
+          position: vectorAdd(statePlayer.position, correctionOffset.current),
+          weapon: weaponRef.current
+        };
+      } else if (renderTime !== null) {
+        const sample = sampleEntity(playerSnapshots.current.get(statePlayer.id), renderTime);
+        if (sample) {
+          player = { ...statePlayer, position: sample.position, rotation: sample.rotation };
+        }
+      }
       
-      // Draw player body
+      drawnPositions.set(player.id, player.position);
+
+      // Draw player body, in team colors when there are teams; we are ringed in white
       ctx.beginPath();
-      ctx.fillStyle = isCurrentPlayer ? '#4CAF50' : '#f44336';
+      ctx.fillStyle = player.team ? TEAMS[player.team].color : isCurrentPlayer ? '#4CAF50' : '#f44336';
       ctx.arc(player.position.x, player.position.y, PLAYER_RADIUS, 0, Math.PI * 2);
       ctx.fill();
+      if (player.team && isCurrentPlayer) {
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
 
       // Draw health bar background
       const healthBarWidth = PLAYER_RADIUS * 2;
@@ -377,16 +785,24 @@ export default function GameCanvas({
         healthBarHeight
       );
 
+      // Draw armor just under the health bar
+      if (player.armor > 0) {
+        ctx.fillStyle = PICKUP_STYLES.armor.color;
+        ctx.fillRect(
+          player.position.x - healthBarWidth / 2,
+          healthBarY + healthBarHeight + 1,
+          healthBarWidth * Math.min(1, player.armor / MAX_ARMOR),
+          2
+        );
+      }
+
       // Draw gun
-      const gunLength = PLAYER_RADIUS * 1.5;
-      const gunEnd = {
-        x: player.position.x + Math.cos(player.rotation) * gunLength,
-        y: player.position.y + Math.sin(player.rotation) * gunLength
-      };
+      const gunStyle = WEAPON_STYLES[player.weapon] || WEAPON_STYLES[DEFAULT_WEAPON];
+      const gunEnd = calculateGunPosition(player.position, player.rotation, PLAYER_RADIUS * gunStyle.length);
 
       ctx.beginPath();
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = 3;
+      ctx.strokeStyle = gunStyle.color;
+      ctx.lineWidth = gunStyle.width;
       ctx.moveTo(player.position.x, player.position.y);
       ctx.lineTo(gunEnd.x, gunEnd.y);
       ctx.stroke();
@@ -402,10 +818,31 @@ export default function GameCanvas({
       );
     });
 
+    // Draw flags on top of their carriers
+    flagsRef.current.forEach(flag => {
+      const carrierPosition = flag.carrierId ? drawnPositions.get(flag.carrierId) : undefined;
+      drawFlag(ctx, carrierPosition || flag.position, TEAMS[flag.team].color);
+    });
+
     // Draw projectiles
     ctx.fillStyle = '#ff0000';
     ctx.lineWidth = 2;
-    projectilesRef.current.forEach(projectile => {
+    if (renderTime === null) return;
+    projectileSnapshots.current.forEach((samples, projectileId) => {
+      // Forget projectiles once the render clock has passed their hit, or when
+      // their updates stopped long ago (e.g. a missed hit event)
+      const removedAt = projectileRemovals.current.get(projectileId);
+      const lastSample = samples[samples.length - 1];
+      if ((removedAt !== undefined && renderTime >= removedAt) ||
+          renderTime - lastSample.time > SNAPSHOT_HISTORY) {
+        projectileSnapshots.current.delete(projectileId);
+        projectileRemovals.current.delete(projectileId);
+        return;
+      }
+
+      const projectile = sampleEntity(samples, renderTime);
+      if (!projectile) return;
+
       ctx.beginPath();
       ctx.arc(projectile.position.x, projectile.position.y, PROJECTILE_RADIUS, 0, Math.PI * 2);
       ctx.fill();
@@ -413,44 +850,372 @@ export default function GameCanvas({
       ctx.stroke();
       
       // Draw projectile trail
+      const trailLength = PROJECTILE_TRAIL_LENGTH;
       ctx.beginPath();
       ctx.strokeStyle = '#ff000066';
       ctx.moveTo(
-        projectile.position.x - projectile.velocity.x * 2,
-        projectile.position.y - projectile.velocity.y * 2
+        projectile.position.x - Math.cos(projectile.rotation) * trailLength,
+        projectile.position.y - Math.sin(projectile.rotation) * trailLength
       );
       ctx.lineTo(projectile.position.x, projectile.position.y);
       ctx.stroke();
     });
   };
 
+  // Ammo count and reload progress for the equipped weapon, bottom right
+  const renderLoadout = (ctx: CanvasRenderingContext2D, player: Player, serverTime: number | null) => {
+    const weaponId = weaponRef.current;
+    const ammo = player.ammo[weaponId];
+    const right = map.width - 20;
+    const bottom = map.height - 20;
+
+    ctx.textAlign = 'right';
+    ctx.fillStyle = ammo.magazine === 0 ? '#f44336' : '#fff';
+    ctx.font = 'bold 24px Arial';
+    ctx.fillText(`${ammo.magazine} / ${ammo.reserve}`, right, bottom);
+    ctx.fillStyle = '#ccc';
+    ctx.font = '14px Arial';
+    ctx.fillText(WEAPONS[weaponId].name, right, bottom - 30);
+
+    const reload = player.reload?.weapon === weaponId ? player.reload : null;
+    if (reload && serverTime !== null) {
+      const duration = tickToTime(reload.endTick - reload.startTick);
+      const progress = Math.max(0, Math.min(1, (serverTime - tickToTime(reload.startTick)) / duration));
+      const barWidth = 120;
+      ctx.fillStyle = '#333';
+      ctx.fillRect(right - barWidth, bottom - 70, barWidth, 6);
+      ctx.fillStyle = '#FFA500';
+      ctx.fillRect(right - barWidth, bottom - 70, barWidth * progress, 6);
+      ctx.fillStyle = '#fff';
+      ctx.fillText('Reloading', right, bottom - 76);
+    } else if (ammo.magazine === 0) {
+      ctx.fillStyle = '#f44336';
+      ctx.fillText(ammo.reserve > 0 ? 'Press R to reload' : 'Out of ammo', right, bottom - 64);
+    }
+
+    // Seconds left on each active power-up, top right
+    if (serverTime === null) return;
+    ctx.textAlign = 'right';
+    (Object.keys(player.powerUps) as PowerUpType[]).forEach((type, i) => {
+      const remaining = Math.max(0, tickToTime(player.powerUps[type]!) - serverTime);
+      ctx.fillStyle = PICKUP_STYLES[type].color;
+      ctx.font = 'bold 14px Arial';
+      ctx.fillText(`${PICKUPS[type].name} ${Math.ceil(remaining / 1000)}s`, right, 30 + i * 20);
+    });
+  };
+
+  // Who the spectator camera follows, and how to move it, bottom center
+  const renderSpectatorStatus = (ctx: CanvasRenderingContext2D) => {
+    const view = camera.current;
+    const target = view.free ? undefined : playersRef.current.find(p => p.id === view.targetId);
+    const center = map.width / 2;
+    ctx.textAlign = 'center';
+    if (eliminatedBy.current) {
+      ctx.fillStyle = '#f44336';
+      ctx.font = 'bold 16px Arial';
+      ctx.fillText(`Eliminated by ${eliminatedBy.current}`, center, map.height - 76);
+    } else if (queuedForNextMatch || !joinedAsSpectator) {
+      // Late joiners kept out of a match in modes without respawns come in
+      // at the next round; those the room made spectate wait for the next match
+      ctx.fillStyle = '#ffeb3b';
+      ctx.font = 'bold 16px Arial';
+      const next = roundsRef.current && !queuedForNextMatch ? 'round' : 'match';
+      ctx.fillText(`You play from the next ${next}`, center, map.height - 76);
+    }
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 18px Arial';
+    ctx.fillText(target ? `Spectating ${target.username}` : 'Free camera', center, map.height - 52);
+    ctx.fillStyle = '#ccc';
+    ctx.font = '13px Arial';
+    ctx.fillText('Q/E - Switch player · F - Free camera · WASD - Pan free camera', center, map.height - 32);
+  };
+
+  // Our loadout, or the spectator camera status, then the match state. The
+  // HUD is drawn in screen space, over any spectator camera.
+  const renderHud = (player: Player | null, currentTime: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    const serverTime = getServerTime(serverClock.current, currentTime);
+    if (player) {
+      renderLoadout(ctx, player, serverTime);
+    } else {
+      renderSpectatorStatus(ctx);
+    }
+    if (serverTime === null) return;
+
+    // Match clock and scoreboard, top center
+    const center = map.width / 2;
+    ctx.textAlign = 'center';
+    let scoreY = 30;
+    const rounds = roundsRef.current;
+    if (rounds) {
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 16px Arial';
+      ctx.fillText(`Round ${rounds.round} · first to ${getRoundsToWin(match.settings.rounds)} wins`, center, scoreY);
+      scoreY += 20;
+    }
+    const endTick = endTickRef.current;
+    if (endTick !== null) {
+      const remaining = Math.max(0, Math.ceil((tickToTime(endTick) - serverTime) / 1000));
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 20px Arial';
+      ctx.fillText(`${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`, center, scoreY);
+      scoreY += 22;
+    }
+    const scores = teamScoresRef.current;
+    if (scores) {
+      ctx.font = 'bold 18px Arial';
+      ctx.textAlign = 'right';
+      ctx.fillStyle = TEAMS.red.color;
+      ctx.fillText(`${TEAMS.red.name} ${scores.red}`, center - 10, scoreY);
+      ctx.textAlign = 'left';
+      ctx.fillStyle = TEAMS.blue.color;
+      ctx.fillText(`${scores.blue} ${TEAMS.blue.name}`, center + 10, scoreY);
+      ctx.textAlign = 'center';
+      scoreY += 20;
+    }
+    // Where each flag is, in capture the flag
+    ctx.font = '13px Arial';
+    flagsRef.current.forEach(flag => {
+      const carrier = flag.carrierId ? playersRef.current.find(p => p.id === flag.carrierId) : undefined;
+      const status = carrier ? `carried by ${carrier.username}` : flag.returnTick !== null ? 'dropped' : 'at base';
+      ctx.fillStyle = TEAMS[flag.team].color;
+      ctx.fillText(`${TEAMS[flag.team].name} flag ${status}`, center, scoreY);
+      scoreY += 16;
+    });
+    if (flagsRef.current.length > 0) scoreY += 4;
+    // Who holds the hill, and when it moves
+    const hill = hillRef.current;
+    if (hill) {
+      const status = hill.contested ? 'contested' : hill.holder ? `held by ${getHolderName(hill.holder)}` : 'empty';
+      const move = hill.nextMoveTick !== null
+        ? ` · moves in ${Math.max(0, Math.ceil((tickToTime(hill.nextMoveTick) - serverTime) / 1000))}s`
+        : '';
+      ctx.font = '13px Arial';
+      ctx.fillStyle = getHillColor(hill);
+      ctx.fillText(`Hill ${status}${move}`, center, scoreY);
+      scoreY += 20;
+    }
+    if (GAME_MODES[match.settings.mode].usesLimits) {
+      const mode = GAME_MODES[match.settings.mode];
+      // Players score hill points themselves only outside team modes
+      const hillPoints = mode.objective === 'hill' && !mode.teams ? hill?.scores || {} : null;
+      const ranked = rankPlayers(playersRef.current);
+      if (hillPoints) ranked.sort((a, b) => (hillPoints[b.id] || 0) - (hillPoints[a.id] || 0));
+      ctx.font = '13px Arial';
+      ranked.slice(0, SCOREBOARD_ROWS).forEach((score, i) => {
+        ctx.fillStyle = score.team ? TEAMS[score.team].color : score.id === currentPlayerId ? '#4CAF50' : '#ddd';
+        const tally = hillPoints
+          ? `${hillPoints[score.id] || 0}/${match.settings.fragLimit} points`
+          : mode.objective === 'kills' ? `${score.kills}/${match.settings.fragLimit}` : `${score.kills} kills`;
+        ctx.fillText(
+          `${i + 1}. ${score.username}  ${tally}  (${score.deaths} deaths)`,
+          center,
+          scoreY + i * 16
+        );
+      });
+    }
+
+    // Safe zone countdown, and a warning while we are outside it
+    const zone = zoneRef.current;
+    if (zone) {
+      const formatSeconds = (tick: number) => {
+        const seconds = Math.max(0, Math.ceil((tickToTime(tick) - serverTime) / 1000));
+        return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+      };
+      const status = zone.shrinkStartTick === null || zone.shrinkEndTick === null
+        ? 'Final zone'
+        : serverTime < tickToTime(zone.shrinkStartTick)
+          ? `Zone shrinks in ${formatSeconds(zone.shrinkStartTick)}`
+          : `Zone shrinking ${formatSeconds(zone.shrinkEndTick)}`;
+      ctx.font = 'bold 16px Arial';
+      ctx.fillStyle = '#90caf9';
+      ctx.fillText(status, center, scoreY);
+      scoreY += 20;
+
+      if (player && isPlayerAlive(player) && isOutsideZone(player.position, getZoneCircle(zone, serverTime / TICK_INTERVAL))) {
+        ctx.fillStyle = '#f44336';
+        ctx.font = 'bold 20px Arial';
+        ctx.fillText('Outside the safe zone!', center, map.height - 60);
+      }
+    }
+
+    // Respawn countdown while dead
+    if (death.current) {
+      const remaining = Math.max(0, tickToTime(death.current.respawnTick) - serverTime);
+      ctx.fillStyle = '#f44336';
+      ctx.font = 'bold 28px Arial';
+      ctx.fillText(`Killed by ${death.current.killerUsername}`, center, map.height / 2 - 20);
+      ctx.fillStyle = '#fff';
+      ctx.font = '18px Arial';
+      ctx.fillText(`Respawning in ${Math.ceil(remaining / 1000)}s`, center, map.height / 2 + 15);
+    }
+  };
+
+  // Team name in team modes, username otherwise
+  const getHolderName = (holder: string): string =>
+    holder in TEAMS
+      ? `${TEAMS[holder as TeamId].name} team`
+      : playersRef.current.find(p => p.id === holder)?.username || 'Unknown';
+
+  // Contested hills are amber, empty ones grey; held ones take the team
+  // color, or our green and everyone else's red
+  const getHillColor = (hill: HillState): string => {
+    if (hill.contested) return '#FFC107';
+    if (!hill.holder) return '#9e9e9e';
+    if (hill.holder in TEAMS) return TEAMS[hill.holder as TeamId].color;
+    return hill.holder === currentPlayerId ? '#4CAF50' : '#f44336';
+  };
+
+  // Headline for the round summary
+  const getRoundMessage = (round: RoundEndedPayload): string => {
+    if (round.winnerId === currentPlayerId) return 'You won the round!';
+    if (round.winnerUsername) return `${round.winnerUsername} won the round!`;
+    return 'The round was a draw!';
+  };
+
+  // Headline for the game over screen
+  const getResultMessage = (): string => {
+    if (!result) return '';
+    if (result.winningTeam) {
+      const ownTeam = result.standings.find(score => score.id === currentPlayerId)?.team;
+      return ownTeam === result.winningTeam
+        ? 'Your team won the game!'
+        : `${TEAMS[result.winningTeam].name} team won the game!`;
+    }
+    if (result.winnerId === currentPlayerId) return 'You won the game!';
+    if (result.winnerUsername) return `${result.winnerUsername} won the game!`;
+    return 'The match ended in a draw!';
+  };
+
   return (
     <div className="relative">
+      {error && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-start gap-2 bg-red-500 text-white text-sm p-2 rounded z-10">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-white/80 hover:text-white">
+            ×
+          </button>
+        </div>
+      )}
+      {roundResult && !gameOver && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+          <div className="text-center text-white p-8 bg-gray-800 rounded-lg">
+            <h2 className="text-2xl font-bold mb-4">Round {roundResult.rounds.round} over</h2>
+            <p className="mb-4">{getRoundMessage(roundResult)}</p>
+            <table className="mb-4 w-full text-sm">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="text-left pr-4">Player</th>
+                  <th className="pr-4">Rounds</th>
+                  <th>Kills</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortByRoundWins(roundResult.standings, roundResult.rounds).map(score => (
+                  <tr key={score.id} className={score.id === currentPlayerId ? 'font-bold text-green-400' : ''}>
+                    <td className="text-left pr-4">{score.username}</td>
+                    <td className="pr-4">{roundResult.rounds.wins[score.id] || 0}</td>
+                    <td>{score.kills}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-sm text-gray-400">Next round in {nextRoundIn}s</p>
+          </div>
+        </div>
+      )}
       {gameOver && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/80">
           <div className="text-center text-white p-8 bg-gray-800 rounded-lg">
             <h2 className="text-2xl font-bold mb-4">Game Over!</h2>
-            <p className="mb-4">
-              {currentPlayerId === winner ? 
-                'You won the game!' : 
-                winner ? `${winner} won the game!` : 
-                'You were eliminated!'}
-            </p>
-            <button
-              onClick={() => window.location.href = '/'}
-              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-              Back to Home
-            </button>
+            <p className="mb-4">{getResultMessage()}</p>
+            {result?.teamScores && (
+              <p className="mb-4 text-xl font-bold">
+                <span style={{ color: TEAMS.red.color }}>{TEAMS.red.name} {result.teamScores.red}</span>
+                {' – '}
+                <span style={{ color: TEAMS.blue.color }}>{result.teamScores.blue} {TEAMS.blue.name}</span>
+              </p>
+            )}
+            {result && (GAME_MODES[match.settings.mode].usesLimits || result.rounds) && (
+              <table className="mb-4 w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th className="text-left pr-4">Player</th>
+                    {result.rounds && <th className="pr-4">Rounds</th>}
+                    <th className="pr-4">Kills</th>
+                    <th>Deaths</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(result.rounds ? sortByRoundWins(result.standings, result.rounds) : result.standings).map(score => (
+                    <tr
+                      key={score.id}
+                      className={score.id === currentPlayerId ? 'font-bold text-green-400' : ''}
+                      style={score.team ? { color: TEAMS[score.team].color } : undefined}
+                    >
+                      <td className="text-left pr-4">{score.username}</td>
+                      {result.rounds && <td className="pr-4">{result.rounds.wins[score.id] || 0}</td>}
+                      <td className="pr-4">{score.kills}</td>
+                      <td>{score.deaths}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {!isCreator && (
+              <p className="mb-4 text-sm text-gray-400">Waiting for the host to start another match...</p>
+            )}
+            <div className="flex justify-center gap-2">
+              {isCreator && (
+                <button
+                  onClick={onPlayAgain}
+                  className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
+                >
+                  Play again
+                </button>
+              )}
+              <button
+                onClick={() => window.location.href = '/'}
+                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+              >
+                Back to Home
+              </button>
+            </div>
           </div>
         </div>
       )}
-      <div className="absolute top-4 left-4 bg-black/50 p-2 rounded text-white text-sm">
-        <p>Controls:</p>
-        <p>WASD - Move</p>
-        <p>Mouse - Aim</p>
-        <p>Space - Shoot</p>
-      </div>
+      {spectating ? (
+        <div className="absolute top-4 left-4 bg-black/50 p-2 rounded text-white text-sm">
+          <p>Spectating:</p>
+          <p>Q/E - Switch player</p>
+          <p>F - Free camera</p>
+          <p>WASD - Pan free camera</p>
+        </div>
+      ) : (
+        <>
+          <div className="absolute top-4 left-4 bg-black/50 p-2 rounded text-white text-sm">
+            <p>Controls:</p>
+            <p>WASD - Move</p>
+            <p>Mouse - Aim</p>
+            <p>Space - Shoot</p>
+            <p>R - Reload</p>
+            <p>1-{WEAPON_IDS.length} - Switch weapon</p>
+          </div>
+          <div className="absolute bottom-4 left-4 flex gap-2 text-sm">
+            {WEAPON_IDS.map((id, i) => (
+              <div
+                key={id}
+                className={`px-3 py-1 rounded text-white ${id === weapon ? 'bg-blue-600' : 'bg-black/50'}`}
+              >
+                {i + 1} {WEAPONS[id].name}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
       <canvas
         ref={canvasRef}
         className="border border-gray-700"
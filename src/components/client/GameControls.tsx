@@ -1,12 +1,12 @@
 'use client';
 
-import { Socket } from 'socket.io-client';
 import { useCallback } from 'react';
+import { GameSocket } from '@/types/events';
 
 interface GameControlsProps {
   isCreator: boolean;
   players: any[];
-  socket: Socket | null;
+  socket: GameSocket | null;
   roomId: string;
 }
 
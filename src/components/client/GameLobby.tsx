@@ -1,39 +1,126 @@
 'use client';
 
-import { Socket } from 'socket.io-client';
-import { Player } from '@/types/game';
+import { MatchSettings, Player, Spectator } from '@/types/game';
+import { CountdownCancelledPayload, CountdownStartedPayload, ErrorCode, GameError, GameSocket } from '@/types/events';
 import { useState, useEffect } from 'react';
+import { GAME_MODES, TEAMS, TEAM_IDS, TeamId, describeMatchSettings } from '@/game/modes';
 import GameControls from './GameControls';
 
+// Why a start or ready toggle was turned down: ordinary outcomes while
+// players come and go and ready up
+const START_ERRORS: ErrorCode[] = ['PLAYERS_NOT_READY', 'NOT_ENOUGH_PLAYERS', 'INVALID_ROOM_STATE'];
+
 interface GameLobbyProps {
   roomId: string;
-  socket: Socket | null;
+  socket: GameSocket | null;
   username: string;
   players: Player[];
+  // Watching, not playing; not counted as players
+  spectators: Spectator[];
+  // Ids of the players ready to start
+  readyIds: string[];
   isCreator: boolean;
+  settings: MatchSettings | null;
 }
 
-export default function GameLobby({ roomId, socket, username, players, isCreator }: GameLobbyProps) {
-  const [error, setError] = useState<string | null>(null);
+export default function GameLobby({
+  roomId,
+  socket,
+  username,
+  players,
+  spectators,
+  readyIds,
+  isCreator,
+  settings
+}: GameLobbyProps) {
+  const [error, setError] = useState<GameError | null>(null);
+  // When the server's countdown runs out, in local time
+  const [countdownEnd, setCountdownEnd] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [cancelReason, setCancelReason] = useState<string | null>(null);
 
   useEffect(() => {
     if (!socket) return;
 
-    socket.on('error', (error: string) => {
+    const handleError = (error: GameError) => {
       setError(error);
-    });
+    };
+    const handleCountdownStarted = ({ duration }: CountdownStartedPayload) => {
+      setError(null);
+      setCancelReason(null);
+      setCountdownEnd(Date.now() + duration);
+    };
+    const handleCountdownCancelled = ({ reason }: CountdownCancelledPayload) => {
+      setCountdownEnd(null);
+      setCancelReason(reason);
+    };
+    socket.on('error', handleError);
+    socket.on('countdownStarted', handleCountdownStarted);
+    socket.on('countdownCancelled', handleCountdownCancelled);
 
     return () => {
-      socket.off('error');
+      socket.off('error', handleError);
+      socket.off('countdownStarted', handleCountdownStarted);
+      socket.off('countdownCancelled', handleCountdownCancelled);
     };
   }, [socket]);
 
+  // A turned-down start is out of date once anyone readies, un-readies, joins
+  // or leaves
+  useEffect(() => {
+    setError(current => current && START_ERRORS.includes(current.code) ? null : current);
+  }, [readyIds, players.length]);
+
+  // The match itself starts on the server's tick; this only shows the time left
+  useEffect(() => {
+    if (countdownEnd === null) return;
+
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((countdownEnd - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 200);
+    return () => clearInterval(timer);
+  }, [countdownEnd]);
+
   const handleStartGame = () => {
     if (socket) {
       socket.emit('startGame', roomId);
     }
   };
 
+  const handleToggleReady = (ready: boolean) => {
+    if (socket) {
+      setError(null);
+      socket.emit('setReady', { roomId, ready });
+    }
+  };
+
+  const handleSelectTeam = (team: TeamId) => {
+    if (socket) {
+      setError(null);
+      socket.emit('selectTeam', { roomId, team });
+    }
+  };
+
+  const teams = settings !== null && GAME_MODES[settings.mode].teams;
+  const currentPlayer = players.find(p => p.username === username);
+  const isReady = (player: Player) => readyIds.includes(player.id);
+  const everyoneReady = players.length >= 2 && players.every(isReady);
+  const startWhenReady = settings !== null && settings.startWhenReady;
+
+  const renderPlayer = (player: Player) => (
+    <li key={player.id} className="flex items-center justify-between">
+      <span>{player.username}</span>
+      <span className="flex items-center gap-2 text-sm">
+        {player.isCreator && (
+          <span className="text-gray-400">(Creator)</span>
+        )}
+        <span className={isReady(player) ? 'text-green-400' : 'text-gray-500'}>
+          {isReady(player) ? 'Ready' : 'Not ready'}
+        </span>
+      </span>
+    </li>
+  );
+
   return (
     <main className="min-h-screen flex flex-col items-center justify-center bg-gray-900 text-white p-4">
       <div className="max-w-md w-full space-y-8">
@@ -50,39 +137,92 @@ export default function GameLobby({ roomId, socket, username, players, isCreator
               Copy
             </button>
           </div>
+          {settings && (
+            <p className="text-sm text-gray-400">{describeMatchSettings(settings)}</p>
+          )}
         </div>
 
-        <div className="bg-gray-800 p-4 rounded-lg shadow-lg w-full max-w-md">
-          <h3 className="text-lg font-semibold mb-4">Players:</h3>
-          <ul className="space-y-2">
-            {players.map(player => (
-              <li key={player.id} className="flex items-center justify-between">
-                <span>{player.username}</span>
-                {player.isCreator && (
-                  <span className="text-sm text-gray-400">(Creator)</span>
+        {teams ? (
+          <div className="grid grid-cols-2 gap-4 w-full max-w-md">
+            {TEAM_IDS.map(team => (
+              <div key={team} className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                <h3 className="text-lg font-semibold mb-4" style={{ color: TEAMS[team].color }}>
+                  {TEAMS[team].name} Team
+                </h3>
+                <ul className="space-y-2 mb-4">
+                  {players.filter(p => p.team === team).map(renderPlayer)}
+                </ul>
+                {currentPlayer && currentPlayer.team !== team && (
+                  <button
+                    onClick={() => handleSelectTeam(team)}
+                    className="w-full py-1 px-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+                  >
+                    Join {TEAMS[team].name}
+                  </button>
                 )}
-              </li>
+              </div>
             ))}
-          </ul>
-        </div>
+          </div>
+        ) : (
+          <div className="bg-gray-800 p-4 rounded-lg shadow-lg w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">Players:</h3>
+            <ul className="space-y-2">
+              {players.map(renderPlayer)}
+            </ul>
+          </div>
+        )}
+
+        {spectators.length > 0 && (
+          <p className="text-sm text-gray-400">
+            Spectating: {spectators.map(spectator => spectator.username).join(', ')}
+          </p>
+        )}
+
+        {countdownEnd !== null ? (
+          <p className="text-center text-2xl font-bold">Match starts in {secondsLeft}</p>
+        ) : cancelReason && (
+          <p className="text-center text-sm text-yellow-400">Countdown cancelled: {cancelReason}</p>
+        )}
 
         {error && (
-          <div className="bg-red-500 text-white p-2 rounded">
-            {error}
+          <div className="flex items-start justify-between gap-2 bg-red-500 text-white p-2 rounded">
+            <span>{error.message}</span>
+            <button onClick={() => setError(null)} className="text-white/80 hover:text-white">
+              ×
+            </button>
           </div>
         )}
 
-        {isCreator && (
+        {currentPlayer && (
+          <button
+            onClick={() => handleToggleReady(!isReady(currentPlayer))}
+            className={`w-full py-2 px-4 rounded ${
+              isReady(currentPlayer)
+                ? 'bg-gray-700 hover:bg-gray-600'
+                : 'bg-blue-500 hover:bg-blue-600'
+            }`}
+          >
+            {isReady(currentPlayer) ? 'Not Ready' : 'Ready'}
+          </button>
+        )}
+
+        {startWhenReady ? (
+          countdownEnd === null && (
+            <p className="text-center text-sm text-gray-400">The match starts once everyone is ready</p>
+          )
+        ) : isCreator && countdownEnd === null && (
           <button
             onClick={handleStartGame}
-            disabled={players.length < 2}
+            disabled={!everyoneReady}
             className={`w-full py-2 px-4 rounded ${
-              players.length < 2
+              !everyoneReady
                 ? 'bg-gray-500 cursor-not-allowed'
                 : 'bg-green-500 hover:bg-green-600'
             }`}
           >
-            {players.length < 2 ? 'Waiting for Players...' : 'Start Game'}
+            {players.length < 2
+              ? 'Waiting for Players...'
+              : everyoneReady ? 'Start Game' : 'Waiting for Everyone to Be Ready...'}
           </button>
         )}
       </div>
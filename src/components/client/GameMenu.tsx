@@ -26,6 +26,13 @@ export default function GameMenu() {
         >
           Join Room
         </button>
+
+        <button
+          onClick={() => router.push('/editor')}
+          className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+        >
+          Map Editor
+        </button>
       </div>
     </div>
   );
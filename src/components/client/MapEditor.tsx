@@ -0,0 +1,517 @@
+'use client';
+
+import { ChangeEvent, MouseEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { GameMap, MapWall, Vector2D } from '@/types/game';
+import { PLAYER_RADIUS } from '@/game/engine';
+import { MapError, getWallPolygon, parseGameMap, pointInPolygon } from '@/game/map';
+import { validateMapLayout } from '@/game/mapLayout';
+import { MAPS } from '@/game/maps';
+import { MAX_MAP_SIZE } from '@/game/validation';
+import { FLAG_RADIUS } from '@/game/flags';
+import { HILL_RADIUS } from '@/game/hill';
+import { TEAMS, TEAM_IDS, TeamId } from '@/game/modes';
+import { drawFlag, drawMap } from './drawMap';
+
+// Where the layout being edited is kept between visits; the create page
+// offers it as a map choice
+export const EDITOR_MAP_STORAGE_KEY = 'shoot-n-kill:editor-map';
+
+// Points snap to this grid, in pixels
+const SNAP = 10;
+// Clicking this close to a polygon's first point closes it
+const CLOSE_DISTANCE = 10;
+const PICKUP_MARKER_RADIUS = 8;
+
+type Tool = 'rect' | 'polygon' | 'spawn' | 'pickup' | 'redFlag' | 'blueFlag' | 'hill' | 'erase';
+
+// Tools that place a team's flag base
+const FLAG_TOOLS: Partial<Record<Tool, TeamId>> = { redFlag: 'red', blueFlag: 'blue' };
+
+const TOOLS: { id: Tool; label: string; hint: string }[] = [
+  { id: 'rect', label: 'Rectangle', hint: 'Drag to draw a rectangular wall' },
+  { id: 'polygon', label: 'Polygon', hint: 'Click to add points; click the first point or press Enter to close, Escape to cancel' },
+  { id: 'spawn', label: 'Spawn', hint: 'Click to place a spawn point' },
+  { id: 'pickup', label: 'Pickup', hint: 'Click to place a pickup spot' },
+  { id: 'redFlag', label: 'Red Flag', hint: 'Click to place the red flag base, for capture the flag' },
+  { id: 'blueFlag', label: 'Blue Flag', hint: 'Click to place the blue flag base, for capture the flag' },
+  { id: 'hill', label: 'Hill', hint: 'Click to place a hill zone, for king of the hill; the hill visits zones in order' },
+  { id: 'erase', label: 'Erase', hint: 'Click a spawn, pickup, flag base, hill zone or wall to remove it' }
+];
+
+const createBlankMap = (): GameMap => ({
+  id: 'custom',
+  name: 'Custom Map',
+  width: 800,
+  height: 600,
+  walls: [],
+  spawnPoints: [],
+  pickupSpots: []
+});
+
+const snap = (point: Vector2D): Vector2D => ({
+  x: Math.round(point.x / SNAP) * SNAP,
+  y: Math.round(point.y / SNAP) * SNAP
+});
+
+// Rectangle wall spanning two corners, or null when it is too small
+const rectFromCorners = (a: Vector2D, b: Vector2D): MapWall | null => {
+  const width = Math.abs(b.x - a.x);
+  const height = Math.abs(b.y - a.y);
+  if (width < SNAP || height < SNAP) return null;
+  return { type: 'rect', x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width, height };
+};
+
+// Structural and layout problems with a map, empty when it is playable
+const getMapErrors = (map: GameMap): string[] => {
+  try {
+    return validateMapLayout(parseGameMap(map));
+  } catch (error) {
+    if (!(error instanceof MapError)) throw error;
+    return [error.message];
+  }
+};
+
+const loadStoredMap = (): GameMap | null => {
+  try {
+    const stored = localStorage.getItem(EDITOR_MAP_STORAGE_KEY);
+    return stored ? parseGameMap(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export default function MapEditor() {
+  const router = useRouter();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [map, setMap] = useState<GameMap>(createBlankMap);
+  const [tool, setTool] = useState<Tool>('rect');
+  // In-progress shapes: rectangle corners being dragged, polygon points so far
+  const [rectDraft, setRectDraft] = useState<{ start: Vector2D; end: Vector2D } | null>(null);
+  const [polygonDraft, setPolygonDraft] = useState<Vector2D[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  const errors = useMemo(() => getMapErrors(map), [map]);
+
+  // Restore the last layout, then keep saving it
+  useEffect(() => {
+    const stored = loadStoredMap();
+    if (stored) setMap(stored);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(EDITOR_MAP_STORAGE_KEY, JSON.stringify(map));
+  }, [map, loaded]);
+
+  const commitPolygon = () => {
+    if (polygonDraft.length >= 3) {
+      setMap(prev => ({ ...prev, walls: [...prev.walls, { type: 'polygon', points: polygonDraft }] }));
+    }
+    setPolygonDraft([]);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') commitPolygon();
+      if (e.key === 'Escape') {
+        setPolygonDraft([]);
+        setRectDraft(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Render the map the way the game does, plus editor markers
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = map.width;
+    canvas.height = map.height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    drawMap(ctx, map);
+
+    // Spawn points, drawn at player size
+    map.spawnPoints.forEach((spawn, i) => {
+      ctx.beginPath();
+      ctx.strokeStyle = '#4CAF50';
+      ctx.lineWidth = 2;
+      ctx.arc(spawn.x, spawn.y, PLAYER_RADIUS, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.fillStyle = '#4CAF50';
+      ctx.textAlign = 'center';
+      ctx.font = '12px Arial';
+      ctx.fillText(`${i + 1}`, spawn.x, spawn.y + 4);
+    });
+
+    // Pickup spots
+    ctx.fillStyle = '#FFC107';
+    map.pickupSpots.forEach(pickup => {
+      ctx.beginPath();
+      ctx.moveTo(pickup.x, pickup.y - PICKUP_MARKER_RADIUS);
+      ctx.lineTo(pickup.x + PICKUP_MARKER_RADIUS, pickup.y);
+      ctx.lineTo(pickup.x, pickup.y + PICKUP_MARKER_RADIUS);
+      ctx.lineTo(pickup.x - PICKUP_MARKER_RADIUS, pickup.y);
+      ctx.closePath();
+      ctx.fill();
+    });
+
+    // Hill zones, numbered in the order the hill visits them
+    (map.hillZones || []).forEach((zone, i) => {
+      ctx.beginPath();
+      ctx.strokeStyle = '#9e9e9e';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.arc(zone.x, zone.y, HILL_RADIUS, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#9e9e9e';
+      ctx.textAlign = 'center';
+      ctx.font = '12px Arial';
+      ctx.fillText(`Hill ${i + 1}`, zone.x, zone.y + 4);
+    });
+
+    // Flag bases
+    for (const team of TEAM_IDS) {
+      const base = map.flagBases?.[team];
+      if (!base) continue;
+      ctx.beginPath();
+      ctx.strokeStyle = TEAMS[team].color;
+      ctx.lineWidth = 2;
+      ctx.arc(base.x, base.y, FLAG_RADIUS, 0, Math.PI * 2);
+      ctx.stroke();
+      drawFlag(ctx, base, TEAMS[team].color);
+    }
+
+    // Shapes being drawn
+    ctx.strokeStyle = '#2196F3';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    if (rectDraft) {
+      ctx.strokeRect(
+        rectDraft.start.x,
+        rectDraft.start.y,
+        rectDraft.end.x - rectDraft.start.x,
+        rectDraft.end.y - rectDraft.start.y
+      );
+    }
+    if (polygonDraft.length > 0) {
+      ctx.beginPath();
+      ctx.moveTo(polygonDraft[0].x, polygonDraft[0].y);
+      polygonDraft.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      ctx.fillStyle = '#2196F3';
+      polygonDraft.forEach(point => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+    ctx.setLineDash([]);
+  }, [map, rectDraft, polygonDraft]);
+
+  const getCanvasPoint = (e: MouseEvent<HTMLCanvasElement>): Vector2D => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const eraseAt = (point: Vector2D) => {
+    const spawnIndex = map.spawnPoints.findIndex(spawn =>
+      Math.hypot(spawn.x - point.x, spawn.y - point.y) <= PLAYER_RADIUS
+    );
+    if (spawnIndex !== -1) {
+      setMap(prev => ({ ...prev, spawnPoints: prev.spawnPoints.filter((_, i) => i !== spawnIndex) }));
+      return;
+    }
+
+    const pickupIndex = map.pickupSpots.findIndex(pickup =>
+      Math.hypot(pickup.x - point.x, pickup.y - point.y) <= PICKUP_MARKER_RADIUS
+    );
+    if (pickupIndex !== -1) {
+      setMap(prev => ({ ...prev, pickupSpots: prev.pickupSpots.filter((_, i) => i !== pickupIndex) }));
+      return;
+    }
+
+    const baseTeam = TEAM_IDS.find(team => {
+      const base = map.flagBases?.[team];
+      return base && Math.hypot(base.x - point.x, base.y - point.y) <= FLAG_RADIUS;
+    });
+    if (baseTeam) {
+      setMap(prev => ({ ...prev, flagBases: { ...prev.flagBases, [baseTeam]: undefined } }));
+      return;
+    }
+
+    // Hill zones are large, so only their centers are picked
+    const zoneIndex = (map.hillZones || []).findIndex(zone =>
+      Math.hypot(zone.x - point.x, zone.y - point.y) <= PICKUP_MARKER_RADIUS * 2
+    );
+    if (zoneIndex !== -1) {
+      setMap(prev => ({ ...prev, hillZones: (prev.hillZones || []).filter((_, i) => i !== zoneIndex) }));
+      return;
+    }
+
+    // Topmost wall under the cursor
+    for (let i = map.walls.length - 1; i >= 0; i--) {
+      if (pointInPolygon(point, getWallPolygon(map.walls[i]))) {
+        setMap(prev => ({ ...prev, walls: prev.walls.filter((_, index) => index !== i) }));
+        return;
+      }
+    }
+  };
+
+  const handleMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
+    const raw = getCanvasPoint(e);
+    const point = snap(raw);
+
+    switch (tool) {
+      case 'rect':
+        setRectDraft({ start: point, end: point });
+        break;
+      case 'polygon':
+        if (polygonDraft.length >= 3 &&
+            Math.hypot(polygonDraft[0].x - point.x, polygonDraft[0].y - point.y) <= CLOSE_DISTANCE) {
+          commitPolygon();
+        } else {
+          setPolygonDraft(prev => [...prev, point]);
+        }
+        break;
+      case 'spawn':
+        setMap(prev => ({ ...prev, spawnPoints: [...prev.spawnPoints, point] }));
+        break;
+      case 'pickup':
+        setMap(prev => ({ ...prev, pickupSpots: [...prev.pickupSpots, point] }));
+        break;
+      case 'redFlag':
+      case 'blueFlag': {
+        const team = FLAG_TOOLS[tool]!;
+        setMap(prev => ({ ...prev, flagBases: { ...prev.flagBases, [team]: point } }));
+        break;
+      }
+      case 'hill':
+        setMap(prev => ({ ...prev, hillZones: [...(prev.hillZones || []), point] }));
+        break;
+      case 'erase':
+        eraseAt(raw);
+        break;
+    }
+  };
+
+  const handleMouseMove = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (!rectDraft) return;
+    const point = snap(getCanvasPoint(e));
+    setRectDraft(prev => prev && { ...prev, end: point });
+  };
+
+  const handleMouseUp = () => {
+    if (!rectDraft) return;
+    const wall = rectFromCorners(rectDraft.start, rectDraft.end);
+    if (wall) {
+      setMap(prev => ({ ...prev, walls: [...prev.walls, wall] }));
+    }
+    setRectDraft(null);
+  };
+
+  const handleSizeChange = (dimension: 'width' | 'height', value: string) => {
+    const size = Math.max(100, Math.min(MAX_MAP_SIZE, Math.round(Number(value) || 0)));
+    setMap(prev => ({ ...prev, [dimension]: size }));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(map, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${map.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setMap(parseGameMap(JSON.parse(await file.text())));
+      setPolygonDraft([]);
+      setImportError(null);
+    } catch (error) {
+      console.error('[MapEditor] Import failed:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const activeTool = TOOLS.find(t => t.id === tool)!;
+
+  return (
+    <main className="min-h-screen bg-gray-900 text-white p-4">
+      <div className="flex flex-col lg:flex-row gap-6">
+        <aside className="lg:w-72 space-y-4 shrink-0">
+          <h1 className="text-2xl font-bold">Map Editor</h1>
+
+          <div className="space-y-2">
+            <label className="block text-sm text-gray-400">
+              Name
+              <input
+                type="text"
+                value={map.name}
+                onChange={(e) => setMap(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full mt-1 px-3 py-1 bg-gray-800 border border-gray-700 rounded"
+              />
+            </label>
+            <label className="block text-sm text-gray-400">
+              Id
+              <input
+                type="text"
+                value={map.id}
+                onChange={(e) => setMap(prev => ({ ...prev, id: e.target.value }))}
+                className="w-full mt-1 px-3 py-1 bg-gray-800 border border-gray-700 rounded"
+              />
+            </label>
+            <div className="flex gap-2">
+              <label className="block text-sm text-gray-400">
+                Width
+                <input
+                  type="number"
+                  step={SNAP}
+                  value={map.width}
+                  onChange={(e) => handleSizeChange('width', e.target.value)}
+                  className="w-full mt-1 px-3 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+              <label className="block text-sm text-gray-400">
+                Height
+                <input
+                  type="number"
+                  step={SNAP}
+                  value={map.height}
+                  onChange={(e) => handleSizeChange('height', e.target.value)}
+                  className="w-full mt-1 px-3 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-sm text-gray-400 mb-1">Tools</h2>
+            <div className="grid grid-cols-3 gap-2">
+              {TOOLS.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => {
+                    setTool(t.id);
+                    setPolygonDraft([]);
+                  }}
+                  className={`px-2 py-1 rounded text-sm ${
+                    tool === t.id ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-2">{activeTool.hint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <select
+              value=""
+              onChange={(e) => {
+                const builtIn = MAPS.find(m => m.id === e.target.value);
+                if (builtIn) setMap(builtIn);
+              }}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded"
+            >
+              <option value="" disabled>Load a built-in map...</option>
+              {MAPS.map(m => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => setMap(createBlankMap())}
+                className="px-2 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+              >
+                New
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-2 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+              >
+                Import
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={errors.length > 0}
+                className={`px-2 py-2 rounded text-sm ${
+                  errors.length > 0 ? 'bg-gray-500 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+                }`}
+              >
+                Export
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            {importError && (
+              <p className="text-sm text-red-500">Import failed: {importError}</p>
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-sm text-gray-400 mb-1">Validation</h2>
+            {errors.length === 0 ? (
+              <p className="text-sm text-green-500">Layout is playable</p>
+            ) : (
+              <ul className="text-sm text-red-400 list-disc pl-5 space-y-1">
+                {errors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <button
+              onClick={() => router.push('/create?map=editor')}
+              disabled={errors.length > 0}
+              className={`w-full py-2 px-4 rounded ${
+                errors.length > 0 ? 'bg-gray-500 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              Create Room With This Map
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="w-full py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded"
+            >
+              Back to Home
+            </button>
+          </div>
+        </aside>
+
+        <div className="overflow-auto">
+          <canvas
+            ref={canvasRef}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            className="border border-gray-700 cursor-crosshair"
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,62 @@
+import { GameMap, Vector2D } from '@/types/game';
+import { getWallPolygon } from '@/game/map';
+
+const GRID_SIZE = 50;
+const FLAG_POLE_HEIGHT = 28;
+
+// Draw the floor grid and the walls of a map
+export const drawMap = (ctx: CanvasRenderingContext2D, map: GameMap) => {
+  // Clear canvas
+  ctx.fillStyle = '#1a1a1a';
+  ctx.fillRect(0, 0, map.width, map.height);
+
+  // Draw grid
+  ctx.strokeStyle = '#333';
+  ctx.lineWidth = 1;
+  for (let x = 0; x < map.width; x += GRID_SIZE) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, map.height);
+    ctx.stroke();
+  }
+  for (let y = 0; y < map.height; y += GRID_SIZE) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(map.width, y);
+    ctx.stroke();
+  }
+
+  // Draw walls
+  ctx.fillStyle = '#4a4a55';
+  ctx.strokeStyle = '#6a6a78';
+  ctx.lineWidth = 2;
+  for (const wall of map.walls) {
+    const polygon = getWallPolygon(wall);
+    ctx.beginPath();
+    ctx.moveTo(polygon[0].x, polygon[0].y);
+    for (const point of polygon.slice(1)) {
+      ctx.lineTo(point.x, point.y);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+};
+
+// Draw a flag planted at `position`: a pole with a pennant in the team's color
+export const drawFlag = (ctx: CanvasRenderingContext2D, position: Vector2D, color: string) => {
+  ctx.strokeStyle = '#ddd';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(position.x, position.y);
+  ctx.lineTo(position.x, position.y - FLAG_POLE_HEIGHT);
+  ctx.stroke();
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(position.x, position.y - FLAG_POLE_HEIGHT);
+  ctx.lineTo(position.x + FLAG_POLE_HEIGHT * 0.7, position.y - FLAG_POLE_HEIGHT * 0.8);
+  ctx.lineTo(position.x, position.y - FLAG_POLE_HEIGHT * 0.6);
+  ctx.closePath();
+  ctx.fill();
+};
@@ -0,0 +1,56 @@
+import { Player, WeaponAmmo } from '../types/game';
+import { TICK_INTERVAL } from './engine';
+import { WEAPONS, WEAPON_IDS, WeaponId } from './weapons';
+
+// Magazines and reserve ammo. The server owns these counts; clients only read
+// them from snapshots to gate firing and draw the HUD.
+
+// Full magazines and starting reserves for every weapon
+export const createAmmo = (): Record<WeaponId, WeaponAmmo> => {
+  const ammo = {} as Record<WeaponId, WeaponAmmo>;
+  for (const id of WEAPON_IDS) {
+    ammo[id] = { magazine: WEAPONS[id].magazineSize, reserve: WEAPONS[id].reserveAmmo };
+  }
+  return ammo;
+};
+
+export const getReloadTicks = (weapon: WeaponId): number =>
+  Math.ceil(WEAPONS[weapon].reloadTime / TICK_INTERVAL);
+
+export const isReloading = (player: Player): boolean =>
+  player.reload !== null && player.reload.weapon === player.weapon;
+
+// A reload needs room in the magazine and something in reserve to fill it
+export const canReload = (player: Player): boolean => {
+  const ammo = player.ammo[player.weapon];
+  return !player.reload && ammo.reserve > 0 && ammo.magazine < WEAPONS[player.weapon].magazineSize;
+};
+
+export const startReload = (player: Player, tick: number): Player => ({
+  ...player,
+  reload: { weapon: player.weapon, startTick: tick, endTick: tick + getReloadTicks(player.weapon) }
+});
+
+// Take one round for a shot, starting a reload when the magazine runs dry
+export const consumeRound = (player: Player, tick: number): Player => {
+  const ammo = player.ammo[player.weapon];
+  const result: Player = {
+    ...player,
+    ammo: { ...player.ammo, [player.weapon]: { ...ammo, magazine: ammo.magazine - 1 } }
+  };
+  return ammo.magazine === 1 && canReload(result) ? startReload(result, tick) : result;
+};
+
+// Move rounds from the reserve into the magazine once the reload has finished
+export const completeReload = (player: Player, tick: number): Player => {
+  if (!player.reload || tick < player.reload.endTick) return player;
+
+  const weapon = player.reload.weapon;
+  const ammo = player.ammo[weapon];
+  const loaded = Math.min(WEAPONS[weapon].magazineSize - ammo.magazine, ammo.reserve);
+  return {
+    ...player,
+    ammo: { ...player.ammo, [weapon]: { magazine: ammo.magazine + loaded, reserve: ammo.reserve - loaded } },
+    reload: null
+  };
+};
@@ -1,12 +1,19 @@
-import { Player, Vector2D, Projectile } from '@/types/game';
+import { Player, Vector2D, Projectile, PlayerInput, GameMap } from '../types/game';
+import { circleHitsWalls, closestPointOnSegment, resolveWallCollisions, sweptCircleHitsWalls } from './map';
+import { WEAPONS, WeaponId } from './weapons';
 
+// Shared tunables, used by both the client prediction and the server simulation
 export const PLAYER_RADIUS = 20;
 export const PROJECTILE_RADIUS = 5;
 export const PLAYER_SPEED = 200; // pixels per second
-export const PROJECTILE_SPEED = 400; // pixels per second
-export const FIRE_RATE = 100; // milliseconds between shots
-export const MAP_WIDTH = 800;
-export const MAP_HEIGHT = 600;
+export const MAX_HEALTH = 100;
+export const MAX_ARMOR = 100;
+export const ARMOR_ABSORPTION = 0.5; // fraction of each hit taken by armor
+
+// Fixed simulation timestep. One input command is produced and consumed per tick.
+export const TICK_RATE = 30; // ticks per second
+export const TICK_INTERVAL = 1000 / TICK_RATE; // milliseconds per tick
+export const TICK_DT = 1 / TICK_RATE; // seconds per tick
 
 // Physics utilities
 export const vectorAdd = (a: Vector2D, b: Vector2D): Vector2D => ({
@@ -32,6 +39,11 @@ export const vectorNormalize = (v: Vector2D): Vector2D => {
   };
 };
 
+export const vectorFromAngle = (angle: number): Vector2D => ({
+  x: Math.cos(angle),
+  y: Math.sin(angle)
+});
+
 export const vectorDistance = (a: Vector2D, b: Vector2D): number => {
   const dx = b.x - a.x;
   const dy = b.y - a.y;
@@ -49,38 +61,51 @@ export const checkCircleCollision = (
   return distance < radius1 + radius2;
 };
 
-export const checkWallCollision = (pos: Vector2D, radius: number): boolean => {
-  return pos.x - radius < 0 ||
-         pos.x + radius > MAP_WIDTH ||
-         pos.y - radius < 0 ||
-         pos.y + radius > MAP_HEIGHT;
+export const checkWallCollision = (pos: Vector2D, radius: number, map: GameMap): boolean => {
+  return circleHitsWalls(pos, radius, map);
 };
 
-// Movement with collision detection
+// Input handling
+export const getInputDirection = (input: PlayerInput): Vector2D => {
+  let dx = 0;
+  let dy = 0;
+  if (input.up) dy -= 1;
+  if (input.down) dy += 1;
+  if (input.left) dx -= 1;
+  if (input.right) dx += 1;
+  return vectorNormalize({ x: dx, y: dy });
+};
+
+// Movement with collision detection. `direction` is a unit vector (or zero) and
+// `dt` the elapsed time in seconds.
 export const movePlayer = (
   currentPos: Vector2D,
-  movement: Vector2D,
+  direction: Vector2D,
+  dt: number,
   players: Player[],
-  playerId: string
+  playerId: string,
+  map: GameMap,
+  speed: number = PLAYER_SPEED
 ): Vector2D => {
-  const newPos = vectorAdd(currentPos, movement);
+  const movement = vectorMultiply(direction, speed * dt);
 
   // Check wall collisions
-  const adjustedPos = {
-    x: Math.max(PLAYER_RADIUS, Math.min(MAP_WIDTH - PLAYER_RADIUS, newPos.x)),
-    y: Math.max(PLAYER_RADIUS, Math.min(MAP_HEIGHT - PLAYER_RADIUS, newPos.y))
-  };
+  const adjustedPos = resolveWallCollisions(vectorAdd(currentPos, movement), PLAYER_RADIUS, map);
 
   // Check player collisions
   for (const player of players) {
-    if (player.id === playerId) continue;
-    
+    if (player.id === playerId || !isPlayerAlive(player)) continue;
+
     if (checkCircleCollision(adjustedPos, PLAYER_RADIUS, player.position, PLAYER_RADIUS)) {
-      // Push players apart
+      // Push players apart, without pushing through walls
       const collisionVector = vectorSubtract(adjustedPos, player.position);
       const normalized = vectorNormalize(collisionVector);
       const pushDistance = PLAYER_RADIUS * 2 - vectorDistance(adjustedPos, player.position);
-      return vectorAdd(adjustedPos, vectorMultiply(normalized, pushDistance));
+      return resolveWallCollisions(
+        vectorAdd(adjustedPos, vectorMultiply(normalized, pushDistance)),
+        PLAYER_RADIUS,
+        map
+      );
     }
   }
 
@@ -91,44 +116,66 @@ export const movePlayer = (
 export const createProjectile = (
   position: Vector2D,
   angle: number,
-  playerId: string
-): Projectile => {
-  const velocity = {
-    x: Math.cos(angle) * PROJECTILE_SPEED,
-    y: Math.sin(angle) * PROJECTILE_SPEED
-  };
+  playerId: string,
+  weaponId: WeaponId
+): Projectile => ({
+  id: Math.random().toString(36).substr(2, 9),
+  position: { ...position },
+  velocity: vectorMultiply(vectorFromAngle(angle), WEAPONS[weaponId].projectileSpeed),
+  playerId,
+  weaponId,
+  origin: { ...position }
+});
 
-  return {
-    id: Math.random().toString(36).substr(2, 9),
-    position: { ...position },
-    velocity,
-    playerId
-  };
+// All projectiles of one shot. Multiple pellets fan out evenly across the
+// weapon's spread; a single projectile deviates randomly within it.
+export const createShot = (
+  position: Vector2D,
+  angle: number,
+  playerId: string,
+  weaponId: WeaponId
+): Projectile[] => {
+  const { pellets, spread } = WEAPONS[weaponId];
+  return Array.from({ length: pellets }, (_, i) => {
+    const offset = pellets > 1
+      ? -spread / 2 + spread * i / (pellets - 1)
+      : (Math.random() - 0.5) * spread;
+    return createProjectile(position, angle + offset, playerId, weaponId);
+  });
 };
 
-export const updateProjectile = (projectile: Projectile): Projectile => {
-  return {
-    ...projectile,
-    position: vectorAdd(projectile.position, projectile.velocity)
-  };
-};
+// Whether a projectile has travelled past its weapon's range
+export const isProjectileExpired = (projectile: Projectile): boolean =>
+  vectorDistance(projectile.origin, projectile.position) > WEAPONS[projectile.weaponId].range;
 
+export const updateProjectile = (projectile: Projectile, dt: number): Projectile => ({
+  ...projectile,
+  position: vectorAdd(projectile.position, vectorMultiply(projectile.velocity, dt))
+});
+
+// `previousPosition` is where the projectile was at the start of the step; the
+// whole path since then is tested against walls and players. Players for whom
+// `canHit` is false, e.g. the shooter's teammates, are passed through.
 export const checkProjectileCollision = (
   projectile: Projectile,
   players: Player[],
-  damage: number = 10
+  map: GameMap,
+  previousPosition: Vector2D = projectile.position,
+  canHit: (player: Player) => boolean = () => true
 ): { hit: boolean; playerId?: string } => {
   // Check wall collision
-  if (checkWallCollision(projectile.position, PROJECTILE_RADIUS)) {
+  if (sweptCircleHitsWalls(previousPosition, projectile.position, PROJECTILE_RADIUS, map)) {
     return { hit: true };
   }
 
-  // Check player collision
+  // Check player collision along the path, so fast projectiles can't pass
+  // through a player between ticks
   for (const player of players) {
-    if (player.id === projectile.playerId) continue;
+    if (player.id === projectile.playerId || !isPlayerAlive(player) || !canHit(player)) continue;
 
+    const closest = closestPointOnSegment(player.position, previousPosition, projectile.position);
     if (checkCircleCollision(
-      projectile.position,
+      closest,
       PROJECTILE_RADIUS,
       player.position,
       PLAYER_RADIUS
@@ -141,20 +188,25 @@ export const checkProjectileCollision = (
 };
 
 // Game state updates
-export const applyDamage = (player: Player, damage: number): Player => ({
-  ...player,
-  health: Math.max(0, player.health - damage)
-});
+// Armor soaks up part of each hit until it runs out
+export const applyDamage = (player: Player, damage: number): Player => {
+  const absorbed = Math.min(player.armor, damage * ARMOR_ABSORPTION);
+  return {
+    ...player,
+    health: Math.max(0, player.health - (damage - absorbed)),
+    armor: player.armor - absorbed
+  };
+};
 
 export const isPlayerAlive = (player: Player): boolean => {
   return player.health > 0;
 };
 
-// Helper functions for game rendering
+// Gun position calculation, shared by rendering and projectile spawning
 export const calculateGunPosition = (
   playerPos: Vector2D,
   rotation: number,
-  gunLength: number = 35
+  gunLength: number = PLAYER_RADIUS * 1.5
 ): Vector2D => {
   return {
     x: playerPos.x + Math.cos(rotation) * gunLength,
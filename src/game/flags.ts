@@ -0,0 +1,18 @@
+import { Flag, GameMap, Vector2D } from '../types/game';
+import { TeamId } from './modes';
+
+// Capture the flag. Flags are moved by the server; clients draw them from the
+// state sent with each flag event.
+
+export const FLAG_RADIUS = 15;
+// How long a dropped flag lies on the ground before going home, in milliseconds
+export const FLAG_RETURN_DELAY = 20000;
+
+// Both flag bases, or null when the map can't host capture the flag
+export const getFlagBases = (map: GameMap): Record<TeamId, Vector2D> | null =>
+  map.flagBases?.red && map.flagBases.blue
+    ? { red: map.flagBases.red, blue: map.flagBases.blue }
+    : null;
+
+export const isFlagAtBase = (flag: Flag): boolean =>
+  flag.carrierId === null && flag.returnTick === null;
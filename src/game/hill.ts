@@ -0,0 +1,18 @@
+import { HillState, Player } from '../types/game';
+import { TICK_INTERVAL, isPlayerAlive, vectorDistance } from './engine';
+
+// King of the hill. The server moves the hill and keeps score; clients draw
+// the state sent with each world snapshot.
+
+export const HILL_RADIUS = 60;
+// Time the hill must be held alone for one point, in milliseconds
+export const HILL_POINT_TIME = 1000;
+export const HILL_POINT_TICKS = Math.round(HILL_POINT_TIME / TICK_INTERVAL);
+// How long the hill stays in one zone when it rotates, in milliseconds
+export const HILL_ROTATION_INTERVAL = 60000;
+
+// Who a player scores for: their team in team modes, themselves otherwise
+export const getHillKey = (player: Player): string => player.team ?? player.id;
+
+export const isOnHill = (player: Player, hill: HillState): boolean =>
+  isPlayerAlive(player) && vectorDistance(player.position, hill.position) <= HILL_RADIUS;
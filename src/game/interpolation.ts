@@ -0,0 +1,112 @@
+import { Vector2D } from '../types/game';
+import { TICK_INTERVAL } from './engine';
+
+// How far in the past remote entities are rendered, in milliseconds. Must cover
+// at least two server updates so there is usually a pair to interpolate between.
+export const INTERPOLATION_DELAY = 100;
+// How long an entity keeps moving past its newest sample when updates stop, in milliseconds
+export const MAX_EXTRAPOLATION = 100;
+// How much history is kept per entity, in milliseconds
+export const SNAPSHOT_HISTORY = 1000;
+// Fraction of the clock error corrected per sample when packets arrive late
+const CLOCK_DRIFT_CORRECTION = 0.05;
+
+export interface EntitySample {
+  time: number; // server time in milliseconds
+  position: Vector2D;
+  rotation: number;
+}
+
+// Timestamped samples per entity id, oldest first
+export type SnapshotBuffer = Map<string, EntitySample[]>;
+
+// Estimated offset between the local clock and the server simulation clock
+export interface ServerClock {
+  offset: number | null;
+}
+
+export const tickToTime = (tick: number): number => tick * TICK_INTERVAL;
+
+export const createServerClock = (): ServerClock => ({ offset: null });
+
+// Feed a server timestamp into the clock. Samples that arrive faster than the
+// current estimate are taken immediately; slower ones only nudge the estimate,
+// so a single delayed packet doesn't push rendering further into the past.
+export const updateServerClock = (clock: ServerClock, serverTime: number, localTime: number): void => {
+  const sample = serverTime - localTime;
+  if (clock.offset === null || sample > clock.offset) {
+    clock.offset = sample;
+  } else {
+    clock.offset += (sample - clock.offset) * CLOCK_DRIFT_CORRECTION;
+  }
+};
+
+// Current server simulation time as seen from this client
+export const getServerTime = (clock: ServerClock, localTime: number): number | null =>
+  clock.offset === null ? null : localTime + clock.offset;
+
+// Server time at which remote entities should be rendered
+export const getRenderTime = (clock: ServerClock, localTime: number): number | null =>
+  clock.offset === null ? null : localTime + clock.offset - INTERPOLATION_DELAY;
+
+export const pushSample = (buffer: SnapshotBuffer, entityId: string, sample: EntitySample): void => {
+  const samples = buffer.get(entityId) || [];
+  const last = samples[samples.length - 1];
+  if (last && sample.time < last.time) return; // Out-of-order update
+  if (last && sample.time === last.time) {
+    samples[samples.length - 1] = sample;
+  } else {
+    samples.push(sample);
+  }
+
+  // Drop samples that are too old to ever be rendered again
+  while (samples.length > 2 && samples[0].time < sample.time - SNAPSHOT_HISTORY) {
+    samples.shift();
+  }
+  buffer.set(entityId, samples);
+};
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+// Interpolate along the shortest arc between two angles
+const lerpAngle = (a: number, b: number, t: number): number => {
+  let delta = (b - a) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return a + delta * t;
+};
+
+const blend = (from: EntitySample, to: EntitySample, t: number, time: number): EntitySample => ({
+  time,
+  position: {
+    x: lerp(from.position.x, to.position.x, t),
+    y: lerp(from.position.y, to.position.y, t)
+  },
+  rotation: lerpAngle(from.rotation, to.rotation, t)
+});
+
+// Sample an entity's state at `renderTime`. Returns null before the entity's
+// first sample. Past the newest sample the motion is extrapolated for at most
+// MAX_EXTRAPOLATION milliseconds, then held.
+export const sampleEntity = (samples: EntitySample[] | undefined, renderTime: number): EntitySample | null => {
+  if (!samples || samples.length === 0 || renderTime < samples[0].time) return null;
+
+  for (let i = samples.length - 1; i > 0; i--) {
+    const from = samples[i - 1];
+    const to = samples[i];
+    if (renderTime >= from.time && renderTime <= to.time) {
+      const t = to.time === from.time ? 1 : (renderTime - from.time) / (to.time - from.time);
+      return blend(from, to, t, renderTime);
+    }
+  }
+
+  const last = samples[samples.length - 1];
+  if (samples.length < 2 || last.time === samples[samples.length - 2].time) {
+    return { ...last, time: renderTime };
+  }
+
+  const previous = samples[samples.length - 2];
+  const extrapolateTo = Math.min(renderTime, last.time + MAX_EXTRAPOLATION);
+  const t = (extrapolateTo - previous.time) / (last.time - previous.time);
+  return blend(previous, last, t, renderTime);
+};
@@ -0,0 +1,219 @@
+import { GameMap, MapWall, Vector2D } from '../types/game';
+import { gameMap } from './validation';
+
+// Map geometry shared by the simulation on both sides and the renderer.
+// Walls are stored as authored (rectangles or polygons) and tested as polygons.
+
+// Passes used to push a circle out of overlapping walls
+const COLLISION_ITERATIONS = 3;
+
+export class MapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapError';
+  }
+}
+
+// Outline of a wall, in order
+export const getWallPolygon = (wall: MapWall): Vector2D[] => {
+  if (wall.type === 'polygon') return wall.points;
+  return [
+    { x: wall.x, y: wall.y },
+    { x: wall.x + wall.width, y: wall.y },
+    { x: wall.x + wall.width, y: wall.y + wall.height },
+    { x: wall.x, y: wall.y + wall.height }
+  ];
+};
+
+interface WallShape {
+  polygon: Vector2D[];
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Outlines and bounding boxes, computed once per wall list. Maps are never
+// mutated, so they can be cached by identity.
+const wallShapes = new WeakMap<MapWall[], WallShape[]>();
+
+const getWallShapes = (map: GameMap): WallShape[] => {
+  let shapes = wallShapes.get(map.walls);
+  if (!shapes) {
+    shapes = map.walls.map(wall => {
+      const polygon = getWallPolygon(wall);
+      return {
+        polygon,
+        minX: Math.min(...polygon.map(p => p.x)),
+        minY: Math.min(...polygon.map(p => p.y)),
+        maxX: Math.max(...polygon.map(p => p.x)),
+        maxY: Math.max(...polygon.map(p => p.y))
+      };
+    });
+    wallShapes.set(map.walls, shapes);
+  }
+  return shapes;
+};
+
+// Walls whose bounding box comes within `margin` of the box spanned by `a` and `b`
+const nearbyWalls = (map: GameMap, a: Vector2D, b: Vector2D, margin: number): WallShape[] => {
+  const minX = Math.min(a.x, b.x) - margin;
+  const maxX = Math.max(a.x, b.x) + margin;
+  const minY = Math.min(a.y, b.y) - margin;
+  const maxY = Math.max(a.y, b.y) + margin;
+  const result: WallShape[] = [];
+  for (const shape of getWallShapes(map)) {
+    if (shape.maxX >= minX && shape.minX <= maxX && shape.maxY >= minY && shape.minY <= maxY) {
+      result.push(shape);
+    }
+  }
+  return result;
+};
+
+export const closestPointOnSegment = (p: Vector2D, a: Vector2D, b: Vector2D): Vector2D => {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const lengthSquared = abx * abx + aby * aby;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / lengthSquared));
+  return { x: a.x + abx * t, y: a.y + aby * t };
+};
+
+const distanceSquared = (a: Vector2D, b: Vector2D): number =>
+  (a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y);
+
+// Even-odd rule, so concave polygons work too
+export const pointInPolygon = (p: Vector2D, polygon: Vector2D[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const closestPointOnPolygon = (p: Vector2D, polygon: Vector2D[]): Vector2D => {
+  let closest = polygon[0];
+  let best = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const candidate = closestPointOnSegment(p, polygon[j], polygon[i]);
+    const distance = distanceSquared(p, candidate);
+    if (distance < best) {
+      best = distance;
+      closest = candidate;
+    }
+  }
+  return closest;
+};
+
+const cross = (o: Vector2D, a: Vector2D, b: Vector2D): number =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const segmentsIntersect = (a: Vector2D, b: Vector2D, c: Vector2D, d: Vector2D): boolean => {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+const segmentDistanceSquared = (a: Vector2D, b: Vector2D, c: Vector2D, d: Vector2D): number => {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    distanceSquared(a, closestPointOnSegment(a, c, d)),
+    distanceSquared(b, closestPointOnSegment(b, c, d)),
+    distanceSquared(c, closestPointOnSegment(c, a, b)),
+    distanceSquared(d, closestPointOnSegment(d, a, b))
+  );
+};
+
+const isOutOfBounds = (pos: Vector2D, radius: number, map: GameMap): boolean =>
+  pos.x - radius < 0 ||
+  pos.x + radius > map.width ||
+  pos.y - radius < 0 ||
+  pos.y + radius > map.height;
+
+const clampToBounds = (pos: Vector2D, radius: number, map: GameMap): Vector2D => ({
+  x: Math.max(radius, Math.min(map.width - radius, pos.x)),
+  y: Math.max(radius, Math.min(map.height - radius, pos.y))
+});
+
+// Whether a circle overlaps a wall or leaves the map
+export const circleHitsWalls = (pos: Vector2D, radius: number, map: GameMap): boolean => {
+  if (isOutOfBounds(pos, radius, map)) return true;
+  return nearbyWalls(map, pos, pos, radius).some(({ polygon }) => {
+    return pointInPolygon(pos, polygon) ||
+      distanceSquared(pos, closestPointOnPolygon(pos, polygon)) < radius * radius;
+  });
+};
+
+// Whether a circle moving from `from` to `to` touches a wall on the way, so
+// fast projectiles cannot skip through thin walls between ticks
+export const sweptCircleHitsWalls = (from: Vector2D, to: Vector2D, radius: number, map: GameMap): boolean => {
+  if (isOutOfBounds(to, radius, map)) return true;
+  return nearbyWalls(map, from, to, radius).some(({ polygon }) => {
+    if (pointInPolygon(to, polygon)) return true;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      if (segmentDistanceSquared(from, to, polygon[j], polygon[i]) < radius * radius) return true;
+    }
+    return false;
+  });
+};
+
+// Push a circle out of every wall it overlaps and back inside the map. Moving
+// into a wall at an angle slides along it.
+export const resolveWallCollisions = (pos: Vector2D, radius: number, map: GameMap): Vector2D => {
+  let result = clampToBounds(pos, radius, map);
+
+  for (let iteration = 0; iteration < COLLISION_ITERATIONS; iteration++) {
+    let moved = false;
+    for (const { polygon } of nearbyWalls(map, result, result, radius)) {
+      const closest = closestPointOnPolygon(result, polygon);
+      const inside = pointInPolygon(result, polygon);
+      const distance = Math.sqrt(distanceSquared(result, closest));
+      if (!inside && distance >= radius) continue;
+      if (distance === 0) continue;
+
+      // From inside, leave through the nearest edge; from outside, back off along
+      // the line to the nearest point
+      const direction = inside
+        ? { x: (closest.x - result.x) / distance, y: (closest.y - result.y) / distance }
+        : { x: (result.x - closest.x) / distance, y: (result.y - closest.y) / distance };
+      result = { x: closest.x + direction.x * radius, y: closest.y + direction.y * radius };
+      moved = true;
+    }
+    result = clampToBounds(result, radius, map);
+    if (!moved) break;
+  }
+
+  return result;
+};
+
+// Spawn point farthest from every occupied position, so players don't spawn
+// on top of each other
+export const chooseSpawnPoint = (map: GameMap, occupied: Vector2D[]): Vector2D => {
+  let best = map.spawnPoints[0];
+  let bestDistance = -1;
+  for (const spawn of map.spawnPoints) {
+    const distance = occupied.length === 0
+      ? Infinity
+      : Math.min(...occupied.map(pos => distanceSquared(spawn, pos)));
+    if (distance > bestDistance) {
+      best = spawn;
+      bestDistance = distance;
+    }
+  }
+  return { ...best };
+};
+
+// Check untrusted map JSON against the format, throwing a MapError naming the
+// first problem found
+export const parseGameMap = (data: unknown): GameMap => {
+  const result = gameMap(data, 'map');
+  if (!result.ok) throw new MapError(result.error);
+  return result.value;
+};
@@ -0,0 +1,121 @@
+import { GameMap, Vector2D } from '../types/game';
+import { PLAYER_RADIUS } from './engine';
+import { circleHitsWalls } from './map';
+import { FLAG_RADIUS } from './flags';
+import { HILL_RADIUS } from './hill';
+import { TEAMS, TEAM_IDS } from './modes';
+
+// Spacing of the grid used to flood-fill the walkable area, in pixels. Large
+// maps use a coarser grid so validation stays cheap enough to run on the server.
+const REACHABILITY_STEP = 10;
+const MAX_REACHABILITY_CELLS = 200;
+
+const getReachabilityStep = (map: GameMap) =>
+  Math.max(REACHABILITY_STEP, Math.ceil(Math.max(map.width, map.height) / MAX_REACHABILITY_CELLS));
+
+// Which grid cells a player can stand on and walk to from `start`
+const floodWalkable = (map: GameMap, start: Vector2D) => {
+  const step = getReachabilityStep(map);
+  const columns = Math.floor(map.width / step) + 1;
+  const rows = Math.floor(map.height / step) + 1;
+  // Grid cell nearest to a point
+  const toCell = (point: Vector2D) => ({
+    column: Math.max(0, Math.min(columns - 1, Math.round(point.x / step))),
+    row: Math.max(0, Math.min(rows - 1, Math.round(point.y / step)))
+  });
+  const walkable = (column: number, row: number) => !circleHitsWalls(
+    { x: column * step, y: row * step },
+    PLAYER_RADIUS,
+    map
+  );
+
+  const reached = new Uint8Array(columns * rows);
+  const origin = toCell(start);
+  const queue = [origin];
+  reached[origin.row * columns + origin.column] = 1;
+  while (queue.length > 0) {
+    const { column, row } = queue.pop()!;
+    for (const [dc, dr] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const c = column + dc;
+      const r = row + dr;
+      if (c < 0 || r < 0 || c >= columns || r >= rows || reached[r * columns + c]) continue;
+      if (!walkable(c, r)) continue;
+      reached[r * columns + c] = 1;
+      queue.push({ column: c, row: r });
+    }
+  }
+
+  // Whether any reached cell lies within `reach` pixels (plus one cell) of the point
+  return (point: Vector2D, reach: number) => {
+    const min = toCell({ x: point.x - reach - step, y: point.y - reach - step });
+    const max = toCell({ x: point.x + reach + step, y: point.y + reach + step });
+    for (let r = min.row; r <= max.row; r++) {
+      for (let c = min.column; c <= max.column; c++) {
+        const distance = Math.hypot(c * step - point.x, r * step - point.y);
+        if (reached[r * columns + c] && distance <= reach + step) return true;
+      }
+    }
+    return false;
+  };
+};
+
+// Problems that make a structurally valid map unplayable, empty when the
+// layout is fine: spawns, pickups, flag bases and hill zones must be clear of
+// walls, spawns must not overlap, and everything must be reachable from the
+// spawns
+export const validateMapLayout = (map: GameMap): string[] => {
+  const errors: string[] = [];
+
+  map.spawnPoints.forEach((spawn, i) => {
+    if (circleHitsWalls(spawn, PLAYER_RADIUS, map)) {
+      errors.push(`Spawn point ${i + 1} overlaps a wall or the map edge`);
+    }
+    map.spawnPoints.slice(0, i).forEach((other, j) => {
+      if (Math.hypot(spawn.x - other.x, spawn.y - other.y) < PLAYER_RADIUS * 2) {
+        errors.push(`Spawn points ${j + 1} and ${i + 1} overlap`);
+      }
+    });
+  });
+  map.pickupSpots.forEach((pickup, i) => {
+    if (circleHitsWalls(pickup, 0, map)) {
+      errors.push(`Pickup ${i + 1} is inside a wall or outside the map`);
+    }
+  });
+  for (const team of TEAM_IDS) {
+    const base = map.flagBases?.[team];
+    if (base && circleHitsWalls(base, FLAG_RADIUS, map)) {
+      errors.push(`${TEAMS[team].name} flag base overlaps a wall or the map edge`);
+    }
+  }
+  (map.hillZones || []).forEach((zone, i) => {
+    if (circleHitsWalls(zone, 0, map)) {
+      errors.push(`Hill zone ${i + 1} is inside a wall or outside the map`);
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const isReachable = floodWalkable(map, map.spawnPoints[0]);
+  map.spawnPoints.forEach((spawn, i) => {
+    if (i > 0 && !isReachable(spawn, 0)) {
+      errors.push(`Spawn point ${i + 1} can't be reached from spawn point 1`);
+    }
+  });
+  map.pickupSpots.forEach((pickup, i) => {
+    if (!isReachable(pickup, PLAYER_RADIUS)) {
+      errors.push(`Pickup ${i + 1} can't be reached from spawn point 1`);
+    }
+  });
+  for (const team of TEAM_IDS) {
+    const base = map.flagBases?.[team];
+    if (base && !isReachable(base, PLAYER_RADIUS)) {
+      errors.push(`${TEAMS[team].name} flag base can't be reached from spawn point 1`);
+    }
+  }
+  (map.hillZones || []).forEach((zone, i) => {
+    if (!isReachable(zone, HILL_RADIUS)) {
+      errors.push(`Hill zone ${i + 1} can't be reached from spawn point 1`);
+    }
+  });
+
+  return errors;
+};
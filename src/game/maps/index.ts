@@ -0,0 +1,11 @@
+import { GameMap } from '../../types/game';
+import { parseGameMap } from '../map';
+import arena from './arena.json';
+import warehouse from './warehouse.json';
+
+// Built-in maps, checked against the map format when loaded
+export const MAPS: GameMap[] = [arena, warehouse].map(data => parseGameMap(data));
+
+export const DEFAULT_MAP_ID = 'arena';
+
+export const getMap = (id: string): GameMap | undefined => MAPS.find(map => map.id === id);
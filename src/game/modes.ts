@@ -0,0 +1,210 @@
+import { MatchSettings, Player } from '../types/game';
+
+// Game modes and match settings, shared by the create page, the HUD and the
+// server's match rules
+
+export type GameModeId =
+  | 'elimination'
+  | 'deathmatch'
+  | 'teamDeathmatch'
+  | 'captureTheFlag'
+  | 'kingOfTheHill'
+  | 'teamKingOfTheHill'
+  | 'battleRoyale';
+
+export type TeamId = 'red' | 'blue';
+
+// What scores toward the limit: kills, flag captures, or seconds spent
+// holding the hill
+export type Objective = 'kills' | 'flags' | 'hill';
+
+export interface GameModeDefinition {
+  id: GameModeId;
+  name: string;
+  description: string;
+  respawns: boolean; // dead players come back after RESPAWN_DELAY
+  usesLimits: boolean; // the frag and time limits end the match
+  teams: boolean; // players are split into teams that score together
+  objective: Objective;
+  safeZone: boolean; // a shrinking safe zone hurts players outside it
+  rounds: boolean; // can be played as best-of rounds, each with its own time limit
+}
+
+export const GAME_MODES: Record<GameModeId, GameModeDefinition> = {
+  elimination: {
+    id: 'elimination',
+    name: 'Elimination',
+    description: 'No respawns. The last player standing wins.',
+    respawns: false,
+    usesLimits: false,
+    teams: false,
+    objective: 'kills',
+    safeZone: false,
+    rounds: true
+  },
+  deathmatch: {
+    id: 'deathmatch',
+    name: 'Deathmatch',
+    description: 'Respawn after every death. First to the frag limit, or most kills when time runs out, wins.',
+    respawns: true,
+    usesLimits: true,
+    teams: false,
+    objective: 'kills',
+    safeZone: false,
+    rounds: false
+  },
+  teamDeathmatch: {
+    id: 'teamDeathmatch',
+    name: 'Team Deathmatch',
+    description: 'Two teams, respawns on. The first team to the frag limit, or the higher score when time runs out, wins.',
+    respawns: true,
+    usesLimits: true,
+    teams: true,
+    objective: 'kills',
+    safeZone: false,
+    rounds: false
+  },
+  captureTheFlag: {
+    id: 'captureTheFlag',
+    name: 'Capture the Flag',
+    description: 'Two teams, respawns on. Carry the enemy flag to your base to score. The first team to the capture limit, or the higher score when time runs out, wins.',
+    respawns: true,
+    usesLimits: true,
+    teams: true,
+    objective: 'flags',
+    safeZone: false,
+    rounds: false
+  },
+  kingOfTheHill: {
+    id: 'kingOfTheHill',
+    name: 'King of the Hill',
+    description: 'Respawns on. Score a point for every second you hold the hill alone. The first to the point limit, or the most points when time runs out, wins.',
+    respawns: true,
+    usesLimits: true,
+    teams: false,
+    objective: 'hill',
+    safeZone: false,
+    rounds: false
+  },
+  teamKingOfTheHill: {
+    id: 'teamKingOfTheHill',
+    name: 'Team King of the Hill',
+    description: 'Two teams, respawns on. Your team scores a point for every second it holds the hill without enemies on it. The first team to the point limit, or the higher score when time runs out, wins.',
+    respawns: true,
+    usesLimits: true,
+    teams: true,
+    objective: 'hill',
+    safeZone: false,
+    rounds: false
+  },
+  battleRoyale: {
+    id: 'battleRoyale',
+    name: 'Battle Royale',
+    description: 'No respawns. The safe zone shrinks in phases and hurts anyone caught outside. The last player standing wins.',
+    respawns: false,
+    usesLimits: false,
+    teams: false,
+    objective: 'kills',
+    safeZone: true,
+    rounds: true
+  }
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameModeId[];
+
+// Name of the thing counted toward each objective's limit
+export const SCORE_UNITS: Record<Objective, string> = {
+  kills: 'frags',
+  flags: 'captures',
+  hill: 'points'
+};
+
+export const TEAMS: Record<TeamId, { name: string; color: string }> = {
+  red: { name: 'Red', color: '#f44336' },
+  blue: { name: 'Blue', color: '#2196F3' }
+};
+
+export const TEAM_IDS = Object.keys(TEAMS) as TeamId[];
+
+// What happens to someone joining while a match is running: turned away,
+// watching it, or playing from their first respawn, or from the next round
+// in modes without respawns
+export type LateJoinPolicy = 'reject' | 'spectate' | 'join';
+
+export const LATE_JOIN_POLICIES: Record<LateJoinPolicy, { name: string }> = {
+  reject: { name: 'Turn them away' },
+  spectate: { name: 'Let them spectate' },
+  join: { name: 'Let them play from the next respawn or round' }
+};
+
+export const LATE_JOIN_POLICY_IDS = Object.keys(LATE_JOIN_POLICIES) as LateJoinPolicy[];
+
+export type TeamScores = Record<TeamId, number>;
+
+export const MAX_FRAG_LIMIT = 100;
+export const MAX_TIME_LIMIT = 60 * 60; // seconds
+// Delay between dying and respawning, in milliseconds
+export const RESPAWN_DELAY = 3000;
+export const MAX_ROUNDS = 9;
+// Break between the rounds of a best-of match, in milliseconds
+export const ROUND_INTERMISSION = 5000;
+// Countdown in the lobby before a match starts, in milliseconds
+export const START_COUNTDOWN = 5000;
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  mode: 'elimination',
+  fragLimit: 20,
+  timeLimit: 10 * 60,
+  friendlyFire: false,
+  rotateHill: false,
+  rounds: 1,
+  startWhenReady: false,
+  lateJoin: 'join'
+};
+
+export interface PlayerScore {
+  id: string;
+  username: string;
+  kills: number;
+  deaths: number;
+  team: TeamId | null;
+}
+
+export const createTeamScores = (): TeamScores => ({ red: 0, blue: 0 });
+
+export const areTeammates = (a: Player, b: Player): boolean =>
+  a.team !== null && a.team === b.team;
+
+export const countTeam = (players: Player[], team: TeamId): number =>
+  players.filter(p => p.team === team).length;
+
+// Team with the fewest players, red on a tie
+export const pickTeam = (players: Player[]): TeamId =>
+  TEAM_IDS.reduce((smallest, team) =>
+    countTeam(players, team) < countTeam(players, smallest) ? team : smallest);
+
+// Scoreboard order: most kills first, fewer deaths breaking ties
+export const rankPlayers = (players: Player[]): PlayerScore[] =>
+  players
+    .map(({ id, username, kills, deaths, team }) => ({ id, username, kills, deaths, team }))
+    .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths);
+
+// Whether the settings make a best-of match rather than a single round
+export const isRoundMatch = (settings: MatchSettings): boolean =>
+  GAME_MODES[settings.mode].rounds && settings.rounds > 1;
+
+// Round wins that take a best-of-`rounds` match
+export const getRoundsToWin = (rounds: number): number => Math.floor(rounds / 2) + 1;
+
+// One-line summary of the settings, e.g. "Deathmatch · 20 frags · 10 min"
+export const describeMatchSettings = (settings: MatchSettings): string => {
+  const mode = GAME_MODES[settings.mode];
+  const time = settings.timeLimit > 0 ? `${Math.round(settings.timeLimit / 60)} min` : 'no time limit';
+  if (isRoundMatch(settings)) {
+    return `${mode.name} · best of ${settings.rounds} · ${time} rounds`;
+  }
+  if (!mode.usesLimits) return mode.name;
+  const friendlyFire = mode.teams ? ` · friendly fire ${settings.friendlyFire ? 'on' : 'off'}` : '';
+  const rotation = mode.objective === 'hill' && settings.rotateHill ? ' · rotating hill' : '';
+  return `${mode.name} · ${settings.fragLimit} ${SCORE_UNITS[mode.objective]} · ${time}${friendlyFire}${rotation}`;
+};
@@ -0,0 +1,88 @@
+import { PickupType, Player, PowerUpType } from '../types/game';
+import { MAX_ARMOR, MAX_HEALTH, PLAYER_SPEED, TICK_INTERVAL } from './engine';
+import { WEAPONS, WEAPON_IDS, WeaponId } from './weapons';
+
+// Pickups and the power-ups they grant. Collection happens on the server;
+// the effects are read by the shared simulation so prediction matches.
+
+export const PICKUP_RADIUS = 15;
+
+export interface PickupDefinition {
+  name: string;
+  respawnTime: number; // milliseconds until it reappears after collection
+}
+
+export const PICKUPS: Record<PickupType, PickupDefinition> = {
+  health: { name: 'Health', respawnTime: 15000 },
+  ammo: { name: 'Ammo', respawnTime: 15000 },
+  armor: { name: 'Armor', respawnTime: 20000 },
+  speed: { name: 'Speed Boost', respawnTime: 30000 },
+  damage: { name: 'Damage Boost', respawnTime: 30000 },
+  rapidFire: { name: 'Rapid Fire', respawnTime: 30000 }
+};
+
+export const PICKUP_TYPES = Object.keys(PICKUPS) as PickupType[];
+
+const HEALTH_PACK_AMOUNT = 50;
+const ARMOR_AMOUNT = 50;
+const POWER_UP_DURATION = 10000; // milliseconds
+const SPEED_BOOST = 1.5; // movement speed multiplier
+const DAMAGE_BOOST = 1.5; // projectile damage multiplier
+const RAPID_FIRE_BOOST = 2; // fire rate multiplier
+
+const isPowerUp = (type: PickupType): type is PowerUpType =>
+  type === 'speed' || type === 'damage' || type === 'rapidFire';
+
+export const hasPowerUp = (player: Player, type: PowerUpType): boolean =>
+  player.powerUps[type] !== undefined;
+
+export const getMoveSpeed = (player: Player): number =>
+  PLAYER_SPEED * (hasPowerUp(player, 'speed') ? SPEED_BOOST : 1);
+
+export const getDamageMultiplier = (player: Player | undefined): number =>
+  player && hasPowerUp(player, 'damage') ? DAMAGE_BOOST : 1;
+
+// Milliseconds between shots of `weapon` for this player
+export const getFireInterval = (player: Player, weapon: WeaponId): number =>
+  WEAPONS[weapon].fireRate / (hasPowerUp(player, 'rapidFire') ? RAPID_FIRE_BOOST : 1);
+
+// Apply a pickup to a player, or null when it would do nothing for them (full
+// health, full armor, full reserves) so it stays on the map for someone else.
+// Power-ups always apply; collecting one that is active restarts its timer.
+export const collectPickup = (player: Player, type: PickupType, tick: number): Player | null => {
+  if (isPowerUp(type)) {
+    return {
+      ...player,
+      powerUps: { ...player.powerUps, [type]: tick + Math.ceil(POWER_UP_DURATION / TICK_INTERVAL) }
+    };
+  }
+
+  switch (type) {
+    case 'health':
+      if (player.health >= MAX_HEALTH) return null;
+      return { ...player, health: Math.min(MAX_HEALTH, player.health + HEALTH_PACK_AMOUNT) };
+    case 'armor':
+      if (player.armor >= MAX_ARMOR) return null;
+      return { ...player, armor: Math.min(MAX_ARMOR, player.armor + ARMOR_AMOUNT) };
+    case 'ammo': {
+      // Tops every reserve back up to what the player spawned with
+      if (WEAPON_IDS.every(id => player.ammo[id].reserve >= WEAPONS[id].reserveAmmo)) return null;
+      const ammo = { ...player.ammo };
+      for (const id of WEAPON_IDS) {
+        ammo[id] = { ...ammo[id], reserve: Math.max(ammo[id].reserve, WEAPONS[id].reserveAmmo) };
+      }
+      return { ...player, ammo };
+    }
+  }
+};
+
+// Drop power-ups that have worn off by `tick`
+export const expirePowerUps = (player: Player, tick: number): Player => {
+  const expired = (Object.keys(player.powerUps) as PowerUpType[])
+    .filter(type => tick >= player.powerUps[type]!);
+  if (expired.length === 0) return player;
+
+  const powerUps = { ...player.powerUps };
+  for (const type of expired) delete powerUps[type];
+  return { ...player, powerUps };
+};
@@ -0,0 +1,56 @@
+import { GameMap, Player, PlayerInput, Vector2D } from '../types/game';
+import { TICK_DT, vectorDistance, vectorMultiply, vectorSubtract } from './engine';
+import { applyInput } from './simulation';
+
+// Maximum number of unacknowledged inputs kept (~4 seconds at the tick rate)
+export const MAX_PENDING_INPUTS = 120;
+// Corrections larger than this (in pixels) snap instead of being smoothed
+export const CORRECTION_SNAP_DISTANCE = 100;
+// Rate at which the visual correction offset decays, per second
+export const CORRECTION_DECAY_RATE = 10;
+
+export interface ReconcileResult {
+  player: Player;
+  pendingInputs: PlayerInput[];
+  // Visual offset to add to the rendered position so the correction is smoothed
+  correction: Vector2D;
+}
+
+// Add an input to the unacknowledged buffer, dropping the oldest on overflow
+export const addPendingInput = (pendingInputs: PlayerInput[], input: PlayerInput): PlayerInput[] => {
+  const next = [...pendingInputs, input];
+  return next.length > MAX_PENDING_INPUTS ? next.slice(next.length - MAX_PENDING_INPUTS) : next;
+};
+
+// Rewind the local player to the authoritative position and replay every input
+// the server has not processed yet
+export const reconcile = (
+  predicted: Player,
+  authoritativePosition: Vector2D,
+  lastProcessedInput: number,
+  pendingInputs: PlayerInput[],
+  players: Player[],
+  map: GameMap
+): ReconcileResult => {
+  const remaining = pendingInputs.filter(input => input.seq > lastProcessedInput);
+
+  let player: Player = { ...predicted, position: { ...authoritativePosition } };
+  for (const input of remaining) {
+    player = applyInput(player, input, players, TICK_DT, map);
+  }
+  // Aim is always driven by the local mouse
+  player.rotation = predicted.rotation;
+
+  const error = vectorSubtract(predicted.position, player.position);
+  const correction = vectorDistance(predicted.position, player.position) > CORRECTION_SNAP_DISTANCE
+    ? { x: 0, y: 0 }
+    : error;
+
+  return { player, pendingInputs: remaining, correction };
+};
+
+// Shrink the correction offset over `dt` seconds
+export const decayCorrection = (correction: Vector2D, dt: number): Vector2D => {
+  const remaining = vectorMultiply(correction, Math.exp(-CORRECTION_DECAY_RATE * dt));
+  return Math.abs(remaining.x) < 0.01 && Math.abs(remaining.y) < 0.01 ? { x: 0, y: 0 } : remaining;
+};
@@ -0,0 +1,411 @@
+import { Player, PlayerInput, Projectile } from '../types/game';
+import { EntityDelta, WorldSnapshot } from './snapshot';
+
+// Encodings a client can ask for when connecting. JSON stays available as a
+// readable fallback for debugging.
+export type WireEncoding = 'json' | 'binary';
+export const DEFAULT_ENCODING: WireEncoding = 'json';
+
+export const isWireEncoding = (value: unknown): value is WireEncoding =>
+  value === 'json' || value === 'binary';
+
+// Quantization: positions in quarter pixels, velocities in whole pixels per
+// second, angles in 1/65536 of a turn
+const POSITION_SCALE = 4;
+const ANGLE_SCALE = 65536 / (Math.PI * 2);
+
+// Player record flags
+const PLAYER_FULL = 1 << 0; // first sighting: carries string id and username
+const PLAYER_POSITION = 1 << 1;
+const PLAYER_ROTATION = 1 << 2;
+const PLAYER_HEALTH = 1 << 3;
+const PLAYER_HAS_CREATOR = 1 << 4;
+const PLAYER_IS_CREATOR = 1 << 5;
+const PLAYER_EXTRAS = 1 << 6;
+
+// Projectile record flags
+const PROJECTILE_POSITION = 1 << 0;
+const PROJECTILE_VELOCITY = 1 << 1;
+const PROJECTILE_OWNER = 1 << 2;
+const PROJECTILE_EXTRAS = 1 << 3;
+
+// Snapshot flags
+const SNAPSHOT_KEYFRAME = 1 << 0;
+
+// Input key flags
+const INPUT_UP = 1 << 0;
+const INPUT_DOWN = 1 << 1;
+const INPUT_LEFT = 1 << 2;
+const INPUT_RIGHT = 1 << 3;
+
+const PLAYER_BINARY_FIELDS = ['id', 'username', 'position', 'rotation', 'health', 'isCreator'];
+const PROJECTILE_BINARY_FIELDS = ['id', 'position', 'velocity', 'playerId'];
+const SNAPSHOT_BINARY_FIELDS = [
+  'version', 'tick', 'baseTick', 'players', 'removedPlayers',
+  'projectiles', 'removedProjectiles', 'lastProcessedInput'
+];
+
+// Numeric ids for string entity ids, assigned by the server per room
+export interface EntityIdTable {
+  ids: Map<string, number>;
+  next: number;
+}
+
+export const createEntityIdTable = (): EntityIdTable => ({ ids: new Map(), next: 1 });
+
+export const getEntityId = (table: EntityIdTable, id: string): number => {
+  let numeric = table.ids.get(id);
+  if (numeric === undefined) {
+    numeric = table.next;
+    table.next = table.next >= 0xffffffff ? 1 : table.next + 1;
+    table.ids.set(id, numeric);
+  }
+  return numeric;
+};
+
+// Forget an id once no client can still receive a snapshot mentioning it
+export const releaseEntityId = (table: EntityIdTable, id: string): void => {
+  table.ids.delete(id);
+};
+
+// Client-side memory of which string id each numeric player id stands for
+export interface BinaryDecoderState {
+  playerIds: Map<number, string>;
+}
+
+export const createDecoderState = (): BinaryDecoderState => ({ playerIds: new Map() });
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Growable little-endian byte writer
+class ByteWriter {
+  private buffer = new ArrayBuffer(256);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.buffer.byteLength) return;
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const next = new ArrayBuffer(capacity);
+    new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  i16(value: number) {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  // Strings are length-prefixed UTF-8, up to 65535 bytes
+  string(value: string) {
+    const bytes = textEncoder.encode(value);
+    if (bytes.length > 0xffff) throw new ProtocolError('String too long to encode');
+    this.u16(bytes.length);
+    this.ensure(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.buffer.slice(0, this.offset));
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private check(size: number) {
+    if (this.offset + size > this.view.byteLength) {
+      throw new ProtocolError('Unexpected end of message');
+    }
+  }
+
+  u8(): number {
+    this.check(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u16();
+    this.check(length);
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+const toBytes = (data: ArrayBuffer | ArrayBufferView): Uint8Array =>
+  data instanceof ArrayBuffer
+    ? new Uint8Array(data)
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const writePosition = (writer: ByteWriter, value: number) =>
+  writer.u16(clamp(Math.round(value * POSITION_SCALE), 0, 0xffff));
+
+const readPosition = (reader: ByteReader) => reader.u16() / POSITION_SCALE;
+
+const writeAngle = (writer: ByteWriter, angle: number) => {
+  const turns = ((angle % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+  writer.u16(Math.round(turns * ANGLE_SCALE) & 0xffff);
+};
+
+const readAngle = (reader: ByteReader) => {
+  const angle = reader.u16() / ANGLE_SCALE;
+  return angle > Math.PI ? angle - Math.PI * 2 : angle;
+};
+
+// Fields not covered by the binary layout travel as a small JSON blob, so new
+// entity fields keep working before they get a dedicated encoding
+const pickExtras = (record: object, binaryFields: string[]): Record<string, unknown> | null => {
+  const extras: Record<string, unknown> = {};
+  let found = false;
+  for (const [key, value] of Object.entries(record)) {
+    if (binaryFields.includes(key) || value === undefined) continue;
+    extras[key] = value;
+    found = true;
+  }
+  return found ? extras : null;
+};
+
+export const encodeWorldSnapshot = (snapshot: WorldSnapshot, ids: EntityIdTable): Uint8Array => {
+  const writer = new ByteWriter();
+  writer.u8(snapshot.version);
+  writer.u8(snapshot.baseTick === null ? SNAPSHOT_KEYFRAME : 0);
+  writer.u32(snapshot.tick);
+  if (snapshot.baseTick !== null) writer.u32(snapshot.baseTick);
+  writer.u32(snapshot.lastProcessedInput);
+
+  writer.u16(snapshot.players.length);
+  for (const player of snapshot.players) {
+    const extras = pickExtras(player, PLAYER_BINARY_FIELDS);
+    let flags = 0;
+    if (player.username !== undefined) flags |= PLAYER_FULL;
+    if (player.position) flags |= PLAYER_POSITION;
+    if (player.rotation !== undefined) flags |= PLAYER_ROTATION;
+    if (player.health !== undefined) flags |= PLAYER_HEALTH;
+    if (player.isCreator !== undefined) flags |= PLAYER_HAS_CREATOR;
+    if (player.isCreator) flags |= PLAYER_IS_CREATOR;
+    if (extras) flags |= PLAYER_EXTRAS;
+
+    writer.u32(getEntityId(ids, player.id));
+    writer.u8(flags);
+    if (flags & PLAYER_FULL) {
+      writer.string(player.id);
+      writer.string(player.username as string);
+    }
+    if (player.position) {
+      writePosition(writer, player.position.x);
+      writePosition(writer, player.position.y);
+    }
+    if (player.rotation !== undefined) writeAngle(writer, player.rotation);
+    // Armor and damage boosts leave fractional health; rounding up keeps a
+    // player on a sliver of health alive on the wire
+    if (player.health !== undefined) writer.u8(clamp(Math.ceil(player.health), 0, 255));
+    if (extras) writer.string(JSON.stringify(extras));
+  }
+
+  writer.u16(snapshot.removedPlayers.length);
+  for (const id of snapshot.removedPlayers) {
+    writer.u32(getEntityId(ids, id));
+  }
+
+  writer.u16(snapshot.projectiles.length);
+  for (const projectile of snapshot.projectiles) {
+    const extras = pickExtras(projectile, PROJECTILE_BINARY_FIELDS);
+    let flags = 0;
+    if (projectile.position) flags |= PROJECTILE_POSITION;
+    if (projectile.velocity) flags |= PROJECTILE_VELOCITY;
+    if (projectile.playerId !== undefined) flags |= PROJECTILE_OWNER;
+    if (extras) flags |= PROJECTILE_EXTRAS;
+
+    writer.u32(getEntityId(ids, projectile.id));
+    writer.u8(flags);
+    if (projectile.position) {
+      writePosition(writer, projectile.position.x);
+      writePosition(writer, projectile.position.y);
+    }
+    if (projectile.velocity) {
+      writer.i16(clamp(Math.round(projectile.velocity.x), -0x8000, 0x7fff));
+      writer.i16(clamp(Math.round(projectile.velocity.y), -0x8000, 0x7fff));
+    }
+    if (projectile.playerId !== undefined) writer.u32(getEntityId(ids, projectile.playerId));
+    if (extras) writer.string(JSON.stringify(extras));
+  }
+
+  writer.u16(snapshot.removedProjectiles.length);
+  for (const id of snapshot.removedProjectiles) {
+    writer.u32(getEntityId(ids, id));
+  }
+
+  const extras = pickExtras(snapshot, SNAPSHOT_BINARY_FIELDS);
+  writer.string(extras ? JSON.stringify(extras) : '');
+  return writer.finish();
+};
+
+export const decodeWorldSnapshot = (
+  data: ArrayBuffer | ArrayBufferView,
+  state: BinaryDecoderState
+): WorldSnapshot => {
+  const reader = new ByteReader(toBytes(data));
+  const version = reader.u8();
+  const snapshotFlags = reader.u8();
+  const tick = reader.u32();
+  const baseTick = snapshotFlags & SNAPSHOT_KEYFRAME ? null : reader.u32();
+  const lastProcessedInput = reader.u32();
+
+  // A keyframe re-announces every player
+  if (baseTick === null) state.playerIds.clear();
+
+  const players: EntityDelta<Player>[] = [];
+  const playerCount = reader.u16();
+  for (let i = 0; i < playerCount; i++) {
+    const numericId = reader.u32();
+    const flags = reader.u8();
+    const player: Record<string, unknown> = {};
+    if (flags & PLAYER_FULL) {
+      const id = reader.string();
+      state.playerIds.set(numericId, id);
+      player.username = reader.string();
+    }
+    const id = state.playerIds.get(numericId);
+    if (!id) throw new ProtocolError(`Unknown player ${numericId}`);
+    player.id = id;
+    if (flags & PLAYER_POSITION) player.position = { x: readPosition(reader), y: readPosition(reader) };
+    if (flags & PLAYER_ROTATION) player.rotation = readAngle(reader);
+    if (flags & PLAYER_HEALTH) player.health = reader.u8();
+    if (flags & PLAYER_HAS_CREATOR) player.isCreator = !!(flags & PLAYER_IS_CREATOR);
+    if (flags & PLAYER_EXTRAS) Object.assign(player, JSON.parse(reader.string()));
+    players.push(player as EntityDelta<Player>);
+  }
+
+  const removedPlayers: string[] = [];
+  const removedPlayerCount = reader.u16();
+  for (let i = 0; i < removedPlayerCount; i++) {
+    const numericId = reader.u32();
+    const id = state.playerIds.get(numericId);
+    if (id) removedPlayers.push(id);
+    state.playerIds.delete(numericId);
+  }
+
+  // Projectile ids only need to be stable on this client, so the numeric id is used as is
+  const projectiles: EntityDelta<Projectile>[] = [];
+  const projectileCount = reader.u16();
+  for (let i = 0; i < projectileCount; i++) {
+    const projectile: Record<string, unknown> = { id: String(reader.u32()) };
+    const flags = reader.u8();
+    if (flags & PROJECTILE_POSITION) projectile.position = { x: readPosition(reader), y: readPosition(reader) };
+    if (flags & PROJECTILE_VELOCITY) projectile.velocity = { x: reader.i16(), y: reader.i16() };
+    if (flags & PROJECTILE_OWNER) {
+      const ownerId = reader.u32();
+      projectile.playerId = state.playerIds.get(ownerId) || String(ownerId);
+    }
+    if (flags & PROJECTILE_EXTRAS) Object.assign(projectile, JSON.parse(reader.string()));
+    projectiles.push(projectile as EntityDelta<Projectile>);
+  }
+
+  const removedProjectiles: string[] = [];
+  const removedProjectileCount = reader.u16();
+  for (let i = 0; i < removedProjectileCount; i++) {
+    removedProjectiles.push(String(reader.u32()));
+  }
+
+  const extras = reader.string();
+  return {
+    ...(extras ? JSON.parse(extras) : {}),
+    version,
+    tick,
+    baseTick,
+    players,
+    removedPlayers,
+    projectiles,
+    removedProjectiles,
+    lastProcessedInput
+  };
+};
+
+// Inputs: sequence number, key bits and quantized aim (7 bytes)
+export const encodePlayerInput = (input: PlayerInput): Uint8Array => {
+  const writer = new ByteWriter();
+  writer.u32(input.seq);
+  writer.u8(
+    (input.up ? INPUT_UP : 0) |
+    (input.down ? INPUT_DOWN : 0) |
+    (input.left ? INPUT_LEFT : 0) |
+    (input.right ? INPUT_RIGHT : 0)
+  );
+  writeAngle(writer, input.rotation);
+  return writer.finish();
+};
+
+export const decodePlayerInput = (data: ArrayBuffer | ArrayBufferView): PlayerInput => {
+  const reader = new ByteReader(toBytes(data));
+  const seq = reader.u32();
+  const keys = reader.u8();
+  return {
+    seq,
+    up: !!(keys & INPUT_UP),
+    down: !!(keys & INPUT_DOWN),
+    left: !!(keys & INPUT_LEFT),
+    right: !!(keys & INPUT_RIGHT),
+    rotation: readAngle(reader)
+  };
+};
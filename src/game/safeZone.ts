@@ -0,0 +1,53 @@
+import { SafeZone, Vector2D } from '../types/game';
+import { TICK_INTERVAL, vectorDistance } from './engine';
+
+// Battle royale safe zone. The server schedules the phases and applies zone
+// damage; clients draw the zone from the state sent with world snapshots.
+
+export interface ZonePhase {
+  delay: number; // milliseconds the zone holds still before shrinking
+  duration: number; // milliseconds the shrink takes
+  scale: number; // target radius as a fraction of the current one
+  damage: number; // damage per ZONE_DAMAGE_INTERVAL outside the zone
+}
+
+export const ZONE_PHASES: ZonePhase[] = [
+  { delay: 30000, duration: 20000, scale: 0.6, damage: 2 },
+  { delay: 20000, duration: 15000, scale: 0.5, damage: 4 },
+  { delay: 15000, duration: 10000, scale: 0.4, damage: 6 },
+  { delay: 10000, duration: 10000, scale: 0, damage: 10 }
+];
+
+// Milliseconds between zone damage ticks
+export const ZONE_DAMAGE_INTERVAL = 1000;
+export const ZONE_DAMAGE_TICKS = Math.round(ZONE_DAMAGE_INTERVAL / TICK_INTERVAL);
+
+// Named as the killer of players the zone kills
+export const ZONE_KILLER_NAME = 'the zone';
+
+export interface ZoneCircle {
+  center: Vector2D;
+  radius: number;
+}
+
+// The safe circle at `tick`, which may be fractional for smooth rendering
+export const getZoneCircle = (zone: SafeZone, tick: number): ZoneCircle => {
+  if (zone.shrinkStartTick === null || zone.shrinkEndTick === null || tick <= zone.shrinkStartTick) {
+    return { center: zone.center, radius: zone.radius };
+  }
+  const t = Math.min(1, (tick - zone.shrinkStartTick) / (zone.shrinkEndTick - zone.shrinkStartTick));
+  return {
+    center: {
+      x: zone.center.x + (zone.targetCenter.x - zone.center.x) * t,
+      y: zone.center.y + (zone.targetCenter.y - zone.center.y) * t
+    },
+    radius: zone.radius + (zone.targetRadius - zone.radius) * t
+  };
+};
+
+export const isOutsideZone = (position: Vector2D, circle: ZoneCircle): boolean =>
+  vectorDistance(position, circle.center) > circle.radius;
+
+// Damage dealt outside the zone, growing as the phases go by
+export const getZoneDamage = (zone: SafeZone): number =>
+  ZONE_PHASES[Math.min(zone.phase, ZONE_PHASES.length - 1)].damage;
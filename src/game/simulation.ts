@@ -0,0 +1,121 @@
+import { GameMap, Player, PlayerInput, Projectile } from '../types/game';
+import {
+  applyDamage,
+  checkProjectileCollision,
+  getInputDirection,
+  isPlayerAlive,
+  isProjectileExpired,
+  movePlayer,
+  updateProjectile
+} from './engine';
+import { WEAPONS } from './weapons';
+import { getDamageMultiplier, getMoveSpeed } from './pickups';
+
+export interface SimulationState {
+  players: Player[];
+  projectiles: Projectile[];
+  map: GameMap;
+}
+
+// Inputs to apply this step, keyed by player id
+export type SimulationInputs = Record<string, PlayerInput>;
+
+export interface ProjectileHit {
+  projectileId: string;
+  shooterId: string;
+  playerId?: string; // undefined when the projectile hit a wall
+  damage: number;
+}
+
+export interface StepOptions {
+  // Players a projectile is tested against. Defaults to the current players;
+  // the server substitutes rewound positions for lag compensation.
+  getTargets?: (projectile: Projectile, players: Player[]) => Player[];
+  // Whether a projectile can hit a player at all; the server uses this to
+  // turn off friendly fire. Defaults to every player but the shooter.
+  canHit?: (projectile: Projectile, player: Player) => boolean;
+}
+
+export interface StepResult {
+  state: SimulationState;
+  hits: ProjectileHit[];
+  // Projectiles that ran out of range this step without hitting anything
+  expired: string[];
+}
+
+// Apply a single input to a player for `dt` seconds
+export const applyInput = (
+  player: Player,
+  input: PlayerInput,
+  players: Player[],
+  dt: number,
+  map: GameMap
+): Player => {
+  const direction = getInputDirection(input);
+  return {
+    ...player,
+    position: movePlayer(player.position, direction, dt, players, player.id, map, getMoveSpeed(player)),
+    rotation: input.rotation
+  };
+};
+
+// Advance the world by `dt` seconds. Pure: returns a new state plus the hits
+// that happened during the step, with damage already applied to the players.
+export const step = (
+  state: SimulationState,
+  inputs: SimulationInputs,
+  dt: number,
+  options: StepOptions = {}
+): StepResult => {
+  // Move players, each against the already-updated positions of the others.
+  // Dead players waiting to respawn stay where they fell.
+  const players = [...state.players];
+  for (let i = 0; i < players.length; i++) {
+    const input = inputs[players[i].id];
+    if (!input || !isPlayerAlive(players[i])) continue;
+    players[i] = applyInput(players[i], input, players, dt, state.map);
+  }
+
+  // Move projectiles and resolve collisions
+  const hits: ProjectileHit[] = [];
+  const expired: string[] = [];
+  const projectiles: Projectile[] = [];
+  for (const projectile of state.projectiles) {
+    const updated = updateProjectile(projectile, dt);
+    const targets = options.getTargets ? options.getTargets(updated, players) : players;
+    const canHit = options.canHit;
+    const collision = checkProjectileCollision(
+      updated,
+      targets,
+      state.map,
+      projectile.position,
+      canHit && (player => canHit(projectile, player))
+    );
+
+    if (!collision.hit) {
+      if (isProjectileExpired(updated)) {
+        expired.push(projectile.id);
+      } else {
+        projectiles.push(updated);
+      }
+      continue;
+    }
+
+    // A damage boost counts if the shooter still has it when the projectile lands
+    const shooter = players.find(p => p.id === projectile.playerId);
+    const damage = WEAPONS[projectile.weaponId].damage * getDamageMultiplier(shooter);
+    const index = players.findIndex(p => p.id === collision.playerId);
+    if (index !== -1) {
+      players[index] = applyDamage(players[index], damage);
+    }
+
+    hits.push({
+      projectileId: projectile.id,
+      shooterId: projectile.playerId,
+      playerId: index !== -1 ? collision.playerId : undefined,
+      damage: index !== -1 ? damage : 0
+    });
+  }
+
+  return { state: { players, projectiles, map: state.map }, hits, expired };
+};
@@ -0,0 +1,149 @@
+import { HillState, Player, Projectile, SafeZone } from '../types/game';
+
+// Bumped whenever the snapshot layout changes; clients ignore other versions
+export const SNAPSHOT_VERSION = 3;
+
+// Full world state at a tick, entities keyed by id
+export interface WorldState {
+  tick: number;
+  players: Record<string, Player>;
+  projectiles: Record<string, Projectile>;
+  // Map-wide state of some modes, null in the others
+  hill: HillState | null;
+  zone: SafeZone | null;
+}
+
+// Map-wide fields, sent whole whenever they change
+type SharedState = Pick<WorldState, 'hill' | 'zone'>;
+const SHARED_FIELDS: (keyof SharedState)[] = ['hill', 'zone'];
+
+// Changed fields of an entity; `id` is always present
+export type EntityDelta<T extends { id: string }> = Partial<T> & { id: string };
+
+export interface WorldSnapshot {
+  version: number;
+  tick: number;
+  // Tick of the state this snapshot is a delta against; null for a keyframe
+  baseTick: number | null;
+  players: EntityDelta<Player>[];
+  removedPlayers: string[];
+  projectiles: EntityDelta<Projectile>[];
+  removedProjectiles: string[];
+  // Present when changed since the base, and in every keyframe
+  hill?: HillState | null;
+  zone?: SafeZone | null;
+  // Sequence number of the recipient's last input the server has simulated
+  lastProcessedInput: number;
+}
+
+export const createWorldState = (
+  tick: number,
+  players: Player[],
+  projectiles: Projectile[],
+  shared: Partial<SharedState> = {}
+): WorldState => ({
+  tick,
+  players: Object.fromEntries(players.map(p => [p.id, { ...p, position: { ...p.position } }])),
+  projectiles: Object.fromEntries(projectiles.map(p => [p.id, {
+    ...p,
+    position: { ...p.position },
+    velocity: { ...p.velocity }
+  }])),
+  hill: shared.hill || null,
+  zone: shared.zone || null
+});
+
+const valuesEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!valuesEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+};
+
+// Fields of `current` that differ from `base`, or null when nothing changed
+const diffEntity = <T extends { id: string }>(base: T | undefined, current: T): EntityDelta<T> | null => {
+  if (!base) return { ...current };
+
+  const delta: Record<string, unknown> = { id: current.id };
+  let changed = false;
+  for (const key of Object.keys(current) as (keyof T & string)[]) {
+    if (!valuesEqual(base[key], current[key])) {
+      delta[key] = current[key];
+      changed = true;
+    }
+  }
+  return changed ? delta as EntityDelta<T> : null;
+};
+
+const diffCollection = <T extends { id: string }>(
+  base: Record<string, T>,
+  current: Record<string, T>
+): { changed: EntityDelta<T>[]; removed: string[] } => {
+  const changed: EntityDelta<T>[] = [];
+  for (const entity of Object.values(current)) {
+    const delta = diffEntity(base[entity.id], entity);
+    if (delta) changed.push(delta);
+  }
+  const removed = Object.keys(base).filter(id => !(id in current));
+  return { changed, removed };
+};
+
+// Build the snapshot that takes a client from `base` (or nothing, for a
+// keyframe) to `current`
+export const createWorldSnapshot = (
+  base: WorldState | null,
+  current: WorldState,
+  lastProcessedInput: number
+): WorldSnapshot => {
+  const players = diffCollection(base ? base.players : {}, current.players);
+  const projectiles = diffCollection(base ? base.projectiles : {}, current.projectiles);
+  const shared = Object.fromEntries(SHARED_FIELDS
+    .filter(field => !base || !valuesEqual(base[field], current[field]))
+    .map(field => [field, current[field]])) as Partial<SharedState>;
+  return {
+    version: SNAPSHOT_VERSION,
+    tick: current.tick,
+    baseTick: base ? base.tick : null,
+    players: players.changed,
+    removedPlayers: players.removed,
+    projectiles: projectiles.changed,
+    removedProjectiles: projectiles.removed,
+    ...shared,
+    lastProcessedInput
+  };
+};
+
+const applyCollection = <T extends { id: string }>(
+  base: Record<string, T>,
+  changed: EntityDelta<T>[],
+  removed: string[]
+): Record<string, T> => {
+  const result = { ...base };
+  for (const id of removed) {
+    delete result[id];
+  }
+  for (const delta of changed) {
+    result[delta.id] = { ...result[delta.id], ...delta } as T;
+  }
+  return result;
+};
+
+// Rebuild the full world state from a snapshot and the state it was based on.
+// `base` is ignored for keyframes.
+export const applyWorldSnapshot = (base: WorldState | null, snapshot: WorldSnapshot): WorldState => {
+  const from = snapshot.baseTick === null || !base
+    ? { players: {}, projectiles: {}, hill: null, zone: null }
+    : base;
+  return {
+    tick: snapshot.tick,
+    players: applyCollection(from.players, snapshot.players, snapshot.removedPlayers),
+    projectiles: applyCollection(from.projectiles, snapshot.projectiles, snapshot.removedProjectiles),
+    hill: snapshot.hill !== undefined ? snapshot.hill : from.hill,
+    zone: snapshot.zone !== undefined ? snapshot.zone : from.zone
+  };
+};
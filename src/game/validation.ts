@@ -0,0 +1,203 @@
+import {
+  ClientEventPayload,
+  ClientToServerEvents,
+  CreateRoomPayload,
+  JoinRoomPayload,
+  SetReadyPayload,
+  PlayerInputPayload,
+  RoomPayload,
+  ShootPayload,
+  SelectTeamPayload,
+  SnapshotAckPayload,
+  SwitchWeaponPayload
+} from '../types/events';
+import { GameMap, MapWall, MatchSettings, PlayerInput, Vector2D } from '../types/game';
+import { WEAPON_IDS } from './weapons';
+import { GAME_MODE_IDS, LATE_JOIN_POLICY_IDS, MAX_FRAG_LIMIT, MAX_ROUNDS, MAX_TIME_LIMIT, TEAM_IDS } from './modes';
+
+// Minimal runtime schemas for incoming socket payloads. A validator returns the
+// checked value, or an error message naming the offending path.
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+export type Validator<T> = (value: unknown, path: string) => ValidationResult<T>;
+
+export const MAX_USERNAME_LENGTH = 24;
+export const MAX_ROOM_ID_LENGTH = 64;
+// Largest accepted binary message from a client, in bytes
+export const MAX_BINARY_PAYLOAD = 64;
+// Map format limits
+export const MAX_MAP_SIZE = 4000;
+export const MAX_MAP_WALLS = 200;
+export const MAX_POLYGON_POINTS = 32;
+export const MAX_MAP_POINTS = 32;
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({ ok: false, error: `${path} ${message}` });
+
+export const string = (options: { minLength?: number; maxLength: number; trim?: boolean }): Validator<string> =>
+  (value, path) => {
+    if (typeof value !== 'string') return fail(path, 'must be a string');
+    const result = options.trim ? value.trim() : value;
+    if (result.length < (options.minLength ?? 1)) return fail(path, 'is too short');
+    if (result.length > options.maxLength) return fail(path, `must be at most ${options.maxLength} characters`);
+    return ok(result);
+  };
+
+export const number = (options: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> =>
+  (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'must be a finite number');
+    if (options.integer && !Number.isInteger(value)) return fail(path, 'must be an integer');
+    if (options.min !== undefined && value < options.min) return fail(path, `must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) return fail(path, `must be at most ${options.max}`);
+    return ok(value);
+  };
+
+export const boolean = (): Validator<boolean> => (value, path) =>
+  typeof value === 'boolean' ? ok(value) : fail(path, 'must be a boolean');
+
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined ? ok(undefined) : validator(value, path);
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (value, path) =>
+  values.includes(value as T) ? ok(value as T) : fail(path, `must be one of ${values.join(', ')}`);
+
+export const object = <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(path, 'must be an object');
+  }
+
+  const result: Partial<T> = {};
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const field = shape[key]((value as Record<string, unknown>)[key], `${path}.${key}`);
+    if (!field.ok) return field;
+    if (field.value !== undefined) result[key] = field.value;
+  }
+  return ok(result as T);
+};
+
+export const array = <T>(item: Validator<T>, options: { minLength?: number; maxLength: number }): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'must be an array');
+    if (value.length < (options.minLength ?? 0)) return fail(path, `must have at least ${options.minLength} items`);
+    if (value.length > options.maxLength) return fail(path, `must have at most ${options.maxLength} items`);
+
+    const result: T[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const element = item(value[i], `${path}[${i}]`);
+      if (!element.ok) return element;
+      result.push(element.value);
+    }
+    return ok(result);
+  };
+
+// Union of object shapes told apart by their `type` field
+export const variant = <T extends { type: string }>(
+  variants: { [K in T['type']]: Validator<Extract<T, { type: K }>> }
+): Validator<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null) return fail(path, 'must be an object');
+  const type = (value as { type?: unknown }).type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(variants, type)) {
+    return fail(`${path}.type`, `must be one of ${Object.keys(variants).join(', ')}`);
+  }
+  return variants[type as T['type']](value, path);
+};
+
+export const binary = (maxBytes: number): Validator<Uint8Array> => (value, path) => {
+  let bytes: Uint8Array | null = null;
+  if (value instanceof ArrayBuffer) bytes = new Uint8Array(value);
+  else if (ArrayBuffer.isView(value)) bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  if (!bytes) return fail(path, 'must be binary data');
+  if (bytes.byteLength > maxBytes) return fail(path, `must be at most ${maxBytes} bytes`);
+  return ok(bytes);
+};
+
+// Shared field schemas
+export const roomId = string({ maxLength: MAX_ROOM_ID_LENGTH, trim: true });
+export const username = string({ maxLength: MAX_USERNAME_LENGTH, trim: true });
+export const vector2D = object<Vector2D>({
+  x: number({ min: -1e6, max: 1e6 }),
+  y: number({ min: -1e6, max: 1e6 })
+});
+export const angle = number({ min: -100, max: 100 });
+export const tick = number({ min: 0, integer: true });
+
+export const playerInput = object<PlayerInput>({
+  seq: number({ min: 1, integer: true }),
+  up: boolean(),
+  down: boolean(),
+  left: boolean(),
+  right: boolean(),
+  rotation: angle
+});
+
+// Map format. Only the structure is checked here; see `validateMapLayout` for
+// whether a map is playable.
+const mapCoordinate = number({ min: 0, max: MAX_MAP_SIZE });
+const mapPoint = object<Vector2D>({ x: mapCoordinate, y: mapCoordinate });
+
+export const mapWall: Validator<MapWall> = variant<MapWall>({
+  rect: object<Extract<MapWall, { type: 'rect' }>>({
+    type: oneOf(['rect'] as const),
+    x: mapCoordinate,
+    y: mapCoordinate,
+    width: number({ min: 1, max: MAX_MAP_SIZE }),
+    height: number({ min: 1, max: MAX_MAP_SIZE })
+  }),
+  polygon: object<Extract<MapWall, { type: 'polygon' }>>({
+    type: oneOf(['polygon'] as const),
+    points: array(mapPoint, { minLength: 3, maxLength: MAX_POLYGON_POINTS })
+  })
+});
+
+export const gameMap = object<GameMap>({
+  id: string({ maxLength: 64 }),
+  name: string({ maxLength: 64 }),
+  width: number({ min: 100, max: MAX_MAP_SIZE }),
+  height: number({ min: 100, max: MAX_MAP_SIZE }),
+  walls: array(mapWall, { maxLength: MAX_MAP_WALLS }),
+  spawnPoints: array(mapPoint, { minLength: 1, maxLength: MAX_MAP_POINTS }),
+  pickupSpots: array(mapPoint, { maxLength: MAX_MAP_POINTS }),
+  flagBases: optional(object<NonNullable<GameMap['flagBases']>>({
+    red: optional(mapPoint),
+    blue: optional(mapPoint)
+  })),
+  hillZones: optional(array(mapPoint, { maxLength: MAX_MAP_POINTS }))
+});
+
+export const matchSettings = object<MatchSettings>({
+  mode: oneOf(GAME_MODE_IDS),
+  fragLimit: number({ integer: true, min: 1, max: MAX_FRAG_LIMIT }),
+  timeLimit: number({ integer: true, min: 0, max: MAX_TIME_LIMIT }),
+  friendlyFire: boolean(),
+  rotateHill: boolean(),
+  rounds: number({ integer: true, min: 1, max: MAX_ROUNDS }),
+  startWhenReady: boolean(),
+  lateJoin: oneOf(LATE_JOIN_POLICY_IDS)
+});
+
+// Schema for the payload of every client event
+export const clientEventSchemas: { [E in keyof ClientToServerEvents]: Validator<ClientEventPayload<E>> } = {
+  createRoom: object<CreateRoomPayload>({
+    username,
+    mapId: optional(string({ maxLength: 64 })),
+    map: optional(gameMap),
+    settings: optional(matchSettings)
+  }),
+  joinRoom: object<JoinRoomPayload>({ roomId, username, spectate: optional(boolean()) }),
+  startGame: roomId,
+  playAgain: roomId,
+  setReady: object<SetReadyPayload>({ roomId, ready: boolean() }),
+  playerInput: object<PlayerInputPayload>({ roomId, input: playerInput }),
+  playerInputBinary: binary(MAX_BINARY_PAYLOAD),
+  shoot: object<ShootPayload>({ roomId, position: vector2D, angle, tick: optional(tick) }),
+  switchWeapon: object<SwitchWeaponPayload>({ roomId, weapon: oneOf(WEAPON_IDS) }),
+  reload: object<RoomPayload>({ roomId }),
+  selectTeam: object<SelectTeamPayload>({ roomId, team: oneOf(TEAM_IDS) }),
+  snapshotAck: object<SnapshotAckPayload>({ roomId, tick }),
+  requestKeyframe: object<RoomPayload>({ roomId })
+};
+
+export const validateClientEvent = <E extends keyof ClientToServerEvents>(
+  event: E,
+  payload: unknown
+): ValidationResult<ClientEventPayload<E>> => clientEventSchemas[event](payload, event);
@@ -0,0 +1,80 @@
+// Weapon definitions shared by the server simulation and the client HUD
+
+export type WeaponId = 'pistol' | 'shotgun' | 'rifle' | 'sniper';
+
+export interface WeaponDefinition {
+  id: WeaponId;
+  name: string;
+  damage: number; // health removed per projectile hit
+  fireRate: number; // milliseconds between shots
+  projectileSpeed: number; // pixels per second
+  spread: number; // total cone angle the projectiles are spread over, in radians
+  pellets: number; // projectiles per shot
+  range: number; // pixels a projectile travels before it disappears
+  magazineSize: number; // shots before a reload is needed
+  reserveAmmo: number; // spare shots carried at spawn
+  reloadTime: number; // milliseconds to reload
+}
+
+export const WEAPONS: Record<WeaponId, WeaponDefinition> = {
+  pistol: {
+    id: 'pistol',
+    name: 'Pistol',
+    damage: 20,
+    fireRate: 250,
+    projectileSpeed: 400,
+    spread: 0.02,
+    pellets: 1,
+    range: 600,
+    magazineSize: 12,
+    reserveAmmo: 48,
+    reloadTime: 1200
+  },
+  shotgun: {
+    id: 'shotgun',
+    name: 'Shotgun',
+    damage: 12,
+    fireRate: 800,
+    projectileSpeed: 450,
+    spread: 0.35,
+    pellets: 6,
+    range: 300,
+    magazineSize: 6,
+    reserveAmmo: 24,
+    reloadTime: 2000
+  },
+  rifle: {
+    id: 'rifle',
+    name: 'Rifle',
+    damage: 15,
+    fireRate: 100,
+    projectileSpeed: 550,
+    spread: 0.06,
+    pellets: 1,
+    range: 700,
+    magazineSize: 30,
+    reserveAmmo: 90,
+    reloadTime: 1800
+  },
+  sniper: {
+    id: 'sniper',
+    name: 'Sniper',
+    damage: 70,
+    fireRate: 1500,
+    projectileSpeed: 900,
+    spread: 0,
+    pellets: 1,
+    range: 1400,
+    magazineSize: 5,
+    reserveAmmo: 15,
+    reloadTime: 2500
+  }
+};
+
+// Weapon slots in number-key order
+export const WEAPON_IDS: WeaponId[] = ['pistol', 'shotgun', 'rifle', 'sniper'];
+
+export const DEFAULT_WEAPON: WeaponId = 'pistol';
+
+export const isWeaponId = (value: unknown): value is WeaponId =>
+  typeof value === 'string' && WEAPON_IDS.includes(value as WeaponId);
@@ -0,0 +1,292 @@
+import type { Socket } from 'socket.io-client';
+import {
+  Flag,
+  GameMap,
+  MatchSettings,
+  Pickup,
+  Player,
+  PlayerInput,
+  RoomStatus,
+  RoundState,
+  Spectator,
+  Vector2D
+} from './game';
+import type { WorldSnapshot } from '../game/snapshot';
+import type { WireEncoding } from '../game/protocol';
+import type { WeaponId } from '../game/weapons';
+import type { PlayerScore, TeamId, TeamScores } from '../game/modes';
+
+// Socket.IO event contract shared by the client and the server. Every incoming
+// client event is also validated at runtime against the schemas in
+// `src/game/validation.ts`.
+
+export type ErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_ROOM_ID'
+  | 'NOT_IN_ROOM'
+  | 'ROOM_NOT_FOUND'
+  | 'ALREADY_IN_ROOM'
+  | 'USERNAME_TAKEN'
+  | 'NOT_ROOM_CREATOR'
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'INVALID_MAP'
+  | 'TEAM_UNAVAILABLE'
+  | 'INVALID_ROOM_STATE'
+  | 'PLAYERS_NOT_READY'
+  | 'MATCH_IN_PROGRESS';
+
+// Payload of every `error` event
+export interface GameError {
+  code: ErrorCode;
+  message: string;
+  // Client event that caused the error, when there is one
+  event?: string;
+}
+
+export interface CreateRoomPayload {
+  username: string;
+  // Built-in map to play on, by id
+  mapId?: string;
+  // Custom layout, e.g. from the map editor; takes precedence over `mapId`
+  map?: GameMap;
+  // Game mode and limits; the defaults when omitted
+  settings?: MatchSettings;
+}
+
+export interface JoinRoomPayload {
+  roomId: string;
+  username: string;
+  // Watch the room instead of playing in it
+  spectate?: boolean;
+}
+
+export interface PlayerInputPayload {
+  roomId: string;
+  input: PlayerInput;
+}
+
+export interface ShootPayload {
+  roomId: string;
+  // Muzzle position the client saw; the server spawns the projectile from the
+  // shooter's authoritative position and only uses this to flag mismatches
+  position: Vector2D;
+  angle: number;
+  // Server tick the shooter was rendering, for lag compensation
+  tick?: number;
+}
+
+export interface SwitchWeaponPayload {
+  roomId: string;
+  weapon: WeaponId;
+}
+
+export interface SelectTeamPayload {
+  roomId: string;
+  team: TeamId;
+}
+
+export interface SetReadyPayload {
+  roomId: string;
+  ready: boolean;
+}
+
+export interface SnapshotAckPayload {
+  roomId: string;
+  tick: number;
+}
+
+export interface RoomPayload {
+  roomId: string;
+}
+
+export interface ClientToServerEvents {
+  createRoom: (payload: CreateRoomPayload) => void;
+  joinRoom: (payload: JoinRoomPayload) => void;
+  // Start the countdown to the match once every player is ready
+  startGame: (roomId: string) => void;
+  setReady: (payload: SetReadyPayload) => void;
+  // Back to the lobby after a finished match, for another one in the same room
+  playAgain: (roomId: string) => void;
+  playerInput: (payload: PlayerInputPayload) => void;
+  playerInputBinary: (data: ArrayBuffer | Uint8Array) => void;
+  shoot: (payload: ShootPayload) => void;
+  switchWeapon: (payload: SwitchWeaponPayload) => void;
+  reload: (payload: RoomPayload) => void;
+  selectTeam: (payload: SelectTeamPayload) => void;
+  snapshotAck: (payload: SnapshotAckPayload) => void;
+  requestKeyframe: (payload: RoomPayload) => void;
+}
+
+// Payload type of a client event
+export type ClientEventPayload<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0];
+
+export interface RoomCreatedPayload {
+  roomId: string;
+  playerId: string;
+  isCreator: boolean;
+}
+
+export interface RoomJoinedPayload {
+  playerId: string;
+  players: Player[];
+  isCreator: boolean;
+  // Map the room is played on
+  map: GameMap;
+  settings: MatchSettings;
+  status: RoomStatus;
+  spectators: Spectator[];
+  // Whether we joined as a spectator
+  spectating: boolean;
+  // Whether we joined a running match as a spectator and play the next one
+  queuedForNextMatch: boolean;
+  // Ids of the players ready to start
+  ready: string[];
+}
+
+export interface CountdownStartedPayload {
+  // Tick the match starts on, the same for everyone
+  startTick: number;
+  // Milliseconds until then
+  duration: number;
+}
+
+export interface CountdownCancelledPayload {
+  reason: string;
+}
+
+export interface RoomStatusPayload {
+  status: RoomStatus;
+  // Everyone in the room after the change
+  players: Player[];
+  spectators: Spectator[];
+}
+
+export interface GameStartedPayload {
+  settings: MatchSettings;
+  // Tick the match ends on when it has a time limit
+  endTick: number | null;
+  // Null outside team modes
+  teamScores: TeamScores | null;
+  // Empty outside capture the flag
+  flags: Flag[];
+  // Null outside best-of matches
+  rounds: RoundState | null;
+  // The last round's result, during the break between rounds
+  roundResult: RoundEndedPayload | null;
+}
+
+export interface TeamChangedPayload {
+  playerId: string;
+  team: TeamId;
+}
+
+export interface CreatorChangedPayload {
+  newCreatorId?: string;
+  players: Player[];
+}
+
+export interface PlayerDiedPayload {
+  playerId: string;
+  killerUsername: string;
+  // Tick the player comes back on, in modes with respawns
+  respawnTick?: number;
+}
+
+export interface PlayerRespawnedPayload {
+  playerId: string;
+  position: Vector2D;
+}
+
+// A flag changing hands. `team` owns the flag; `playerId` is who took, dropped,
+// returned or captured it, null when a dropped flag returned on its own.
+export interface FlagEventPayload {
+  team: TeamId;
+  playerId: string | null;
+  // Every flag after the change
+  flags: Flag[];
+}
+
+export type MatchEndReason =
+  | 'last_standing'
+  | 'frag_limit'
+  | 'capture_limit'
+  | 'score_limit'
+  | 'time_limit'
+  | 'rounds_won'
+  | 'forfeit';
+
+// A round of a best-of match ended without deciding it
+export interface RoundEndedPayload {
+  // Wins include this round's
+  rounds: RoundState;
+  // Both null when the round was a draw
+  winnerId: string | null;
+  winnerUsername: string | null;
+  reason: MatchEndReason;
+  // Everyone who played in the match
+  standings: PlayerScore[];
+  // Tick the next round starts on
+  nextRoundTick: number;
+}
+
+export interface RoundStartedPayload {
+  rounds: RoundState;
+  // Tick the round runs out of time on, when it has a time limit
+  endTick: number | null;
+}
+
+export interface GameOverPayload {
+  // All null when the match ended in a draw. Team modes name a winning team
+  // instead of a winning player.
+  winnerUsername: string | null;
+  winnerId: string | null;
+  winningTeam: TeamId | null;
+  reason: MatchEndReason;
+  standings: PlayerScore[];
+  teamScores: TeamScores | null;
+  // Null outside best-of matches
+  rounds: RoundState | null;
+}
+
+export interface ServerToClientEvents {
+  protocolNegotiated: (payload: { encoding: WireEncoding }) => void;
+  latencyPing: (ack: () => void) => void;
+  roomCreated: (payload: RoomCreatedPayload) => void;
+  roomJoined: (payload: RoomJoinedPayload) => void;
+  playerJoined: (player: Player) => void;
+  playerLeft: (playerId: string) => void;
+  creatorChanged: (payload: CreatorChangedPayload) => void;
+  roomStatusChanged: (payload: RoomStatusPayload) => void;
+  // Ids of the players ready to start, sent whenever one readies or un-readies
+  readyChanged: (playerIds: string[]) => void;
+  countdownStarted: (payload: CountdownStartedPayload) => void;
+  countdownCancelled: (payload: CountdownCancelledPayload) => void;
+  gameStarted: (payload: GameStartedPayload) => void;
+  worldSnapshot: (snapshot: WorldSnapshot) => void;
+  // Browsers receive binary payloads as an ArrayBuffer
+  worldSnapshotBinary: (data: ArrayBuffer | Uint8Array) => void;
+  playerDied: (payload: PlayerDiedPayload) => void;
+  playerRespawned: (payload: PlayerRespawnedPayload) => void;
+  teamChanged: (payload: TeamChangedPayload) => void;
+  teamScoresUpdated: (scores: TeamScores) => void;
+  // Every pickup in the room, sent whenever one is collected or respawns
+  pickupsUpdated: (pickups: Pickup[]) => void;
+  // Everyone watching the room, sent whenever someone starts or stops spectating
+  spectatorsUpdated: (spectators: Spectator[]) => void;
+  flagTaken: (payload: FlagEventPayload) => void;
+  flagDropped: (payload: FlagEventPayload) => void;
+  flagReturned: (payload: FlagEventPayload) => void;
+  flagCaptured: (payload: FlagEventPayload) => void;
+  roundEnded: (payload: RoundEndedPayload) => void;
+  roundStarted: (payload: RoundStartedPayload) => void;
+  gameOver: (payload: GameOverPayload) => void;
+  error: (error: GameError) => void;
+}
+
+// Per-connection state kept by the server in `socket.data`
+export interface SocketData {
+  roomId?: string;
+  encoding: WireEncoding;
+}
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -1,3 +1,6 @@
+import type { WeaponId } from '../game/weapons';
+import type { GameModeId, LateJoinPolicy, TeamId } from '../game/modes';
+
 export interface Player {
   id: string;
   position: Vector2D;
@@ -5,6 +8,35 @@ export interface Player {
   health: number;
   username: string;
   isCreator?: boolean;
+  weapon: WeaponId;
+  ammo: Record<WeaponId, WeaponAmmo>;
+  reload: ReloadState | null;
+  armor: number;
+  // Active power-ups and the tick each one wears off
+  powerUps: Partial<Record<PowerUpType, number>>;
+  kills: number;
+  deaths: number;
+  // Null outside team modes
+  team: TeamId | null;
+}
+
+// Someone watching a room without playing: eliminated players, and anyone who
+// joined as a spectator
+export interface Spectator {
+  id: string;
+  username: string;
+}
+
+export interface WeaponAmmo {
+  magazine: number;
+  reserve: number;
+}
+
+// A reload in progress, timed in server ticks so clients can show progress
+export interface ReloadState {
+  weapon: WeaponId;
+  startTick: number;
+  endTick: number;
 }
 
 export interface Vector2D {
@@ -17,24 +49,125 @@ export interface Projectile {
   position: Vector2D;
   velocity: Vector2D;
   playerId: string;
+  weaponId: WeaponId;
+  // Where it was fired from, for the weapon's range
+  origin: Vector2D;
 }
 
+export type PowerUpType = 'speed' | 'damage' | 'rapidFire';
+
+export type PickupType = 'health' | 'ammo' | 'armor' | PowerUpType;
+
+export interface Pickup {
+  id: string;
+  type: PickupType;
+  position: Vector2D;
+  // Tick the pickup reappears on, or null while it can be collected
+  respawnTick: number | null;
+}
+
+// A team's flag in capture the flag. It is at its base when neither carried
+// nor dropped.
+export interface Flag {
+  team: TeamId;
+  position: Vector2D;
+  carrierId: string | null;
+  // Tick a dropped flag goes back to its base on, null otherwise
+  returnTick: number | null;
+}
+
+// The hill in king of the hill, sent with world snapshots
+export interface HillState {
+  // Index into the map's hill zones, and that zone's center
+  zone: number;
+  position: Vector2D;
+  // Player id, or team id in team modes, alone on the hill
+  holder: string | null;
+  // Whether more than one player or team is on the hill
+  contested: boolean;
+  // Ticks the holder has held toward their next point
+  progress: number;
+  // Points per player id, or per team id in team modes
+  scores: Record<string, number>;
+  // Tick the hill moves to the next zone on, null when it stays put
+  nextMoveTick: number | null;
+}
+
+// The battle royale safe zone. It holds still, then shrinks from the current
+// circle to the target circle between the two shrink ticks.
+export interface SafeZone {
+  // Index of the next or ongoing shrink phase; past the last phase the zone
+  // stays put
+  phase: number;
+  center: Vector2D;
+  radius: number;
+  targetCenter: Vector2D;
+  targetRadius: number;
+  shrinkStartTick: number | null;
+  shrinkEndTick: number | null;
+}
+
+export interface PlayerInput {
+  seq: number;
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  rotation: number;
+}
+
+// Solid map geometry: an axis-aligned rectangle or a simple polygon
+export type MapWall =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'polygon'; points: Vector2D[] };
+
+export interface GameMap {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  walls: MapWall[];
+  spawnPoints: Vector2D[];
+  pickupSpots: Vector2D[];
+  // Where each team's flag stands; capture the flag needs both
+  flagBases?: Partial<Record<TeamId, Vector2D>>;
+  // Centers of the hill's possible locations, for king of the hill
+  hillZones?: Vector2D[];
+}
+
+// Where a room is in its lifecycle: in the lobby, counting down to a match,
+// playing, between rounds, or showing the result of a finished match
+export type RoomStatus = 'waiting' | 'countdown' | 'playing' | 'roundEnd' | 'finished';
+
 export interface GameState {
   players: Map<string, Player>;
   projectiles: Projectile[];
-  status: 'waiting' | 'playing' | 'finished';
+  status: RoomStatus;
 }
 
 export interface RoomInfo {
   id: string;
   players: Player[];
-  status: 'waiting' | 'playing';
+  status: RoomStatus;
   creatorId: string;
 }
 
-export interface Socket<T = any> {
-  emit: (event: string, ...args: any[]) => void;
-  on: (event: string, callback: (...args: any[]) => void) => void;
-  off: (event: string, callback?: (...args: any[]) => void) => void;
-  id?: string;
+// Chosen when the room is created
+export interface MatchSettings {
+  mode: GameModeId;
+  fragLimit: number; // kills that win a match in modes with limits
+  timeLimit: number; // seconds, 0 for no time limit
+  friendlyFire: boolean; // whether projectiles hurt teammates in team modes
+  rotateHill: boolean; // whether the hill moves between the map's zones in king of the hill
+  rounds: number; // best-of rounds in round-based modes, 1 for a single round
+  startWhenReady: boolean; // whether the countdown starts by itself once every player is ready
+  lateJoin: LateJoinPolicy; // what happens to someone joining while a match is running
+}
+
+// Progress through a best-of match
+export interface RoundState {
+  // Round being played, from 1
+  round: number;
+  // Rounds won so far by player id
+  wins: Record<string, number>;
 }